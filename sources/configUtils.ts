@@ -0,0 +1,213 @@
+import { Filename, PortablePath, ppath, xfs } from '@yarnpkg/fslib';
+import { parseSyml } from '@yarnpkg/parsers';
+import { UsageError } from 'clipanion';
+import * as t from 'typanion';
+
+export const CONFIG_FILENAME = `.upgrade-interactive-filter.yml` as Filename;
+
+export const UPGRADE_POLICIES = [
+  `range`,
+  `latest`,
+  `patch`,
+  `minor`,
+  `major`,
+] as const;
+export type UpgradePolicy = typeof UPGRADE_POLICIES[number];
+
+export type ConfiguredExclusion = {
+  rule: string;
+  reason: string | null;
+  expires: Date | null;
+};
+
+// The packages of a family are matched by name or by the repository they're published from
+export type PackageGroup = {
+  name: string;
+  packages: Array<string>;
+  repository: string | null;
+};
+
+export type FilterConfiguration = {
+  policy: UpgradePolicy | null;
+  exclude: Array<ConfiguredExclusion>;
+  groups: Array<PackageGroup>;
+  verify: string | null;
+};
+
+// The round trip rejects the days that don't exist, such as 2024-02-30
+const isCalendarDate = t.makeValidator<string>({
+  test: (value, state) => {
+    const date = new Date(value);
+    if (!isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value)
+      return true;
+
+    state?.errors?.push(
+      `${state.p ?? `.`}: Expected to be an existing date (got ${value})`,
+    );
+    return false;
+  },
+});
+
+const isDateString = t.cascade(t.isString(), [
+  t.matchesRegExp(/^[0-9]{4}-[0-9]{2}-[0-9]{2}$/),
+  isCalendarDate,
+]);
+
+// The file is parsed with the failsafe yaml schema, so every scalar is a string
+const isFilterConfiguration = t.isObject({
+  policy: t.isOptional(t.isEnum(UPGRADE_POLICIES)),
+  verify: t.isOptional(t.isString()),
+  exclude: t.isOptional(
+    t.isArray(
+      t.isOneOf([
+        t.isString(),
+        t.isObject({
+          rule: t.isString(),
+          reason: t.isOptional(t.isString()),
+          expires: t.isOptional(isDateString),
+        }),
+      ]),
+    ),
+  ),
+  groups: t.isOptional(
+    t.isArray(
+      t.isObject({
+        name: t.isString(),
+        packages: t.isOptional(t.isArray(t.isString())),
+        repository: t.isOptional(t.isString()),
+      }),
+    ),
+  ),
+});
+
+export const loadFilterConfiguration = async (
+  projectCwd: PortablePath,
+): Promise<FilterConfiguration> => {
+  const configPath = ppath.join(projectCwd, CONFIG_FILENAME);
+  if (!xfs.existsSync(configPath))
+    return { policy: null, exclude: [], groups: [], verify: null };
+
+  let data: unknown;
+  try {
+    data = parseSyml(await xfs.readFilePromise(configPath, `utf8`));
+  } catch (error) {
+    throw new UsageError(
+      `Failed to parse ${CONFIG_FILENAME}: ${error.message}`,
+    );
+  }
+
+  const errors: Array<string> = [];
+  if (!isFilterConfiguration(data, { errors }))
+    throw new UsageError(
+      `Invalid ${CONFIG_FILENAME}:\n${errors
+        .map((error) => `  - ${error}`)
+        .join(`\n`)}`,
+    );
+
+  for (const group of data.groups ?? [])
+    if (!group.packages && !group.repository)
+      throw new UsageError(
+        `Invalid ${CONFIG_FILENAME}: the ${group.name} group needs packages or a repository`,
+      );
+
+  return {
+    policy: data.policy ?? null,
+    exclude: (data.exclude ?? []).map((entry) =>
+      typeof entry === `string`
+        ? { rule: entry, reason: null, expires: null }
+        : {
+            rule: entry.rule,
+            reason: entry.reason ?? null,
+            expires: entry.expires ? new Date(entry.expires) : null,
+          },
+    ),
+    groups: (data.groups ?? []).map((group) => ({
+      name: group.name,
+      packages: group.packages ?? [],
+      repository: group.repository ?? null,
+    })),
+    verify: data.verify ?? null,
+  };
+};
+
+// Same layout as the entries written by hand, the values being quoted as they may contain a # or a colon
+export const formatConfiguredExclusion = (
+  { rule, reason, expires }: ConfiguredExclusion,
+  indent: string = `  `,
+): Array<string> => {
+  const lines = [`${indent}- rule: ${JSON.stringify(rule)}`];
+  if (reason !== null)
+    lines.push(`${indent}  reason: ${JSON.stringify(reason)}`);
+  if (expires !== null)
+    lines.push(`${indent}  expires: ${expires.toISOString().slice(0, 10)}`);
+
+  return lines;
+};
+
+// The entries are inserted as text after the last ones, so that the comments and the layout of the file are kept.
+// Returns false without writing anything when the exclude list can't be extended this way (such as a flow sequence).
+export const addConfiguredExclusions = async (
+  projectCwd: PortablePath,
+  exclusions: Array<ConfiguredExclusion>,
+): Promise<boolean> => {
+  const configPath = ppath.join(projectCwd, CONFIG_FILENAME);
+  const content = xfs.existsSync(configPath)
+    ? await xfs.readFilePromise(configPath, `utf8`)
+    : ``;
+
+  const eol = content.includes(`\r\n`) ? `\r\n` : `\n`;
+  const lines = content.length > 0 ? content.split(/\r?\n/) : [];
+  if (lines[lines.length - 1] === ``) lines.pop();
+
+  const excludeIndex = lines.findIndex((line) => /^exclude\s*:/.test(line));
+  if (excludeIndex === -1) {
+    lines.push(
+      `exclude:`,
+      ...exclusions.flatMap((exclusion) =>
+        formatConfiguredExclusion(exclusion),
+      ),
+    );
+  } else {
+    if (!/^exclude\s*:\s*(#.*)?$/.test(lines[excludeIndex])) return false;
+
+    // The list ends at the next top-level key, the blank lines and the comments before it are left where they are
+    let lastEntryIndex = excludeIndex;
+    let indent: string | null = null;
+    for (let index = excludeIndex + 1; index < lines.length; ++index) {
+      const line = lines[index];
+      if (/^\s*(#.*)?$/.test(line)) continue;
+      if (!/^(\s|-)/.test(line)) break;
+
+      if (indent === null) indent = line.match(/^(\s*)-/)?.[1] ?? null;
+      lastEntryIndex = index;
+    }
+
+    lines.splice(
+      lastEntryIndex + 1,
+      0,
+      ...exclusions.flatMap((exclusion) =>
+        formatConfiguredExclusion(exclusion, indent ?? `  `),
+      ),
+    );
+  }
+
+  const updatedContent = `${lines.join(eol)}${eol}`;
+
+  // Makes sure that the file still parses, with the new entries at the end of the list
+  const { exclude: currentEntries = [] } =
+    content.length > 0 ? parseSyml(content) : {};
+  const { exclude: updatedEntries } = parseSyml(updatedContent);
+  if (
+    !Array.isArray(currentEntries) ||
+    !Array.isArray(updatedEntries) ||
+    updatedEntries.length !== currentEntries.length + exclusions.length ||
+    exclusions.some(
+      ({ rule }, index) =>
+        updatedEntries[currentEntries.length + index]?.rule !== rule,
+    )
+  )
+    return false;
+
+  await xfs.writeFilePromise(configPath, updatedContent);
+  return true;
+};
@@ -3,7 +3,7 @@ import {
   Cache,
   Configuration,
   Project,
-  HardDependencies,
+  MessageName,
   formatUtils,
   miscUtils,
   structUtils,
@@ -13,16 +13,44 @@ import {
   Workspace,
   Ident,
   IdentHash,
+  Manifest,
+  Package,
+  Report,
+  ThrowReport,
+  scriptUtils,
 } from '@yarnpkg/core';
+import { Filename, PortablePath, npath, ppath, xfs } from '@yarnpkg/fslib';
 import type { SubmitInjectedComponent } from '@yarnpkg/libui/sources/misc/renderForm';
 import { suggestUtils } from '@yarnpkg/plugin-essentials';
+import { gitUtils } from '@yarnpkg/plugin-git';
+import { npmHttpUtils } from '@yarnpkg/plugin-npm';
 import { Command, Option, Usage, UsageError } from 'clipanion';
-import { diffWords } from 'diff';
+import { createTwoFilesPatch, diffWords } from 'diff';
 import path from 'path';
+import readline from 'readline';
 import semver from 'semver';
-import { WriteStream } from 'tty';
+import { ReadStream, WriteStream } from 'tty';
 import * as t from 'typanion';
 
+import {
+  CONFIG_FILENAME,
+  UPGRADE_POLICIES,
+  ConfiguredExclusion,
+  PackageGroup,
+  UpgradePolicy,
+  addConfiguredExclusions,
+  formatConfiguredExclusion,
+  loadFilterConfiguration,
+} from './configUtils';
+import {
+  SessionSelection,
+  UpgradeSession,
+  getSessionPath,
+  loadUpgradeSession,
+  removeUpgradeSession,
+  saveUpgradeSession,
+} from './sessionUtils';
+
 const SIMPLE_SEMVER =
   /^((?:[\^~]|>=?)?)([0-9]+)(\.[0-9]+)(\.[0-9]+)((?:-\S+)?)$/;
 
@@ -38,6 +66,118 @@ const matchesGlob = (str: string, pattern: string): boolean => {
   return regex.test(str);
 };
 
+// Runs the callback on each item in parallel, with at most `concurrency` calls pending at once
+export const mapWithConcurrency = async <T, U>(
+  items: Array<T>,
+  concurrency: number,
+  callback: (item: T) => Promise<U>,
+): Promise<Array<U>> => {
+  const results: Array<U> = new Array(items.length);
+  let nextIndex = 0;
+
+  const work = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await callback(items[index]);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, work),
+  );
+
+  return results;
+};
+
+// Anything but an explicit yes (including the end of the input) is a no
+const askConfirmation = (
+  stdin: NodeJS.ReadableStream,
+  stdout: NodeJS.WritableStream,
+  question: string,
+): Promise<boolean> => {
+  const rl = readline.createInterface({ input: stdin, output: stdout });
+
+  return new Promise<boolean>((resolve) => {
+    rl.on(`close`, () => resolve(false));
+    rl.question(`${question} [y/N] `, (answer) => {
+      resolve(/^y(es)?$/i.test(answer.trim()));
+      rl.close();
+    });
+  });
+};
+
+// The characters of the query must appear in the same order in the name, not necessarily next to each other
+const matchesFuzzyQuery = (name: string, query: string): boolean => {
+  const lowerName = name.toLowerCase();
+  let index = 0;
+
+  for (const ch of query.toLowerCase()) {
+    index = lowerName.indexOf(ch, index);
+    if (index === -1) return false;
+
+    index += 1;
+  }
+
+  return true;
+};
+
+const hasGlobCharacters = (pattern: string): boolean => {
+  return /[*?]/.test(pattern);
+};
+
+// Directories are told apart from workspace names by their slash, unless they start with a scope
+const isPathSelector = (selector: string): boolean => {
+  return (
+    selector.startsWith(`.`) ||
+    (!selector.startsWith(`@`) && selector.includes(`/`))
+  );
+};
+
+const normalizePathSelector = (selector: string): string => {
+  return selector.replace(/^\.\//, ``).replace(/\/+$/, ``) || `.`;
+};
+
+const getLevenshteinDistance = (a: string, b: string): number => {
+  let previousRow = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; ++i) {
+    const currentRow = [i];
+
+    for (let j = 1; j <= b.length; ++j) {
+      currentRow[j] = Math.min(
+        previousRow[j] + 1,
+        currentRow[j - 1] + 1,
+        previousRow[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+
+    previousRow = currentRow;
+  }
+
+  return previousRow[b.length];
+};
+
+const findClosestName = (
+  name: string,
+  candidates: Array<string>,
+): string | null => {
+  let closestName: string | null = null;
+  let closestDistance = Infinity;
+
+  for (const candidate of candidates) {
+    const distance = getLevenshteinDistance(name, candidate);
+    if (distance < closestDistance) {
+      closestName = candidate;
+      closestDistance = distance;
+    }
+  }
+
+  // Suggesting a name that has nothing in common with the input is more confusing than helpful
+  return closestDistance <= Math.max(2, Math.floor(name.length / 3))
+    ? closestName
+    : null;
+};
+
 const matchesLocation = (
   pattern: ExcludedDependency,
   workspace: Workspace,
@@ -46,39 +186,72 @@ const matchesLocation = (
     ? `@${workspace.anchoredDescriptor.scope}/${workspace.anchoredDescriptor.name}`
     : workspace.anchoredDescriptor.name;
 
-  if (pattern.workspace && pattern.workspace === parsedWorkspace) {
-    console.log(`Workspace: ${pattern.workspace}, ${parsedWorkspace}}`);
+  // Rules without a location apply to every workspace
+  if (!pattern.workspace && !pattern.directory) return true;
+
+  if (pattern.workspace && matchesGlob(parsedWorkspace, pattern.workspace))
     return true;
-  }
-  if (pattern.directory && pattern.directory === process.cwd()) {
-    console.log(`Directory: ${pattern.directory}, ${process.cwd()}`);
+
+  // Directories are resolved relative to the project root beforehand, see resolveRuleDirectory
+  if (
+    pattern.directory &&
+    matchesGlob(workspace.relativeCwd, pattern.directory)
+  )
     return true;
-  }
 
   return false;
 };
 
 const matchesVersionRange = (
   pattern: ExcludedDependency,
-  versionRange: string,
+  { range, resolvedVersion }: DependencyVersion,
 ): boolean => {
   if (!pattern.versionRange) return true;
 
-  console.log(`Excluded version range: ${pattern.versionRange}`);
-  console.log(`Manifest Version Range: ${versionRange}`);
-
-  const isValid = semver.validRange(pattern.versionRange);
-  console.log(isValid);
-
-  const satisfies = semver.satisfies(versionRange, pattern.versionRange);
-  console.log(satisfies);
   // If the version range is a valid semver, we can compare it directly
-  if (isValid) {
-    return satisfies;
+  if (semver.validRange(pattern.versionRange)) {
+    // Dependencies missing from the lockfile (peer dependencies, new entries) can only be compared through their range
+    if (pattern.versionMatch === `resolved` && resolvedVersion !== null)
+      return semver.satisfies(resolvedVersion, pattern.versionRange);
+
+    return (
+      semver.validRange(range) !== null &&
+      semver.intersects(range, pattern.versionRange)
+    );
   }
 
   // Otherwise, we assume it's a glob pattern and check if it matches
-  return matchesGlob(versionRange, pattern.versionRange);
+  return matchesGlob(range, pattern.versionRange);
+};
+
+type RuleEvaluation = {
+  name: boolean;
+  location: boolean;
+  version: boolean;
+};
+
+const evaluateRule = (
+  pattern: ExcludedDependency,
+  packageName: string,
+  workspace: Workspace,
+  version: DependencyVersion,
+): RuleEvaluation => {
+  return {
+    name: matchesGlob(packageName, pattern.dependencyPattern),
+    location: matchesLocation(pattern, workspace),
+    version: matchesVersionRange(pattern, version),
+  };
+};
+
+const matchesRule = (
+  pattern: ExcludedDependency,
+  packageName: string,
+  workspace: Workspace,
+  version: DependencyVersion,
+): boolean => {
+  const evaluation = evaluateRule(pattern, packageName, workspace, version);
+
+  return evaluation.name && evaluation.location && evaluation.version;
 };
 
 // eslint-disable-next-line @typescript-eslint/comma-dangle -- the trailing comma is required because of parsing ambiguities
@@ -88,13 +261,514 @@ const partition = <T,>(array: Array<T>, size: number): Array<Array<T>> => {
     : [];
 };
 
-type UpgradeSuggestion = { value: string | null; label: string };
+type DependencyVersion = {
+  range: string;
+  resolvedVersion: string | null;
+};
+// Versions that would have been suggested if they hadn't been published less than --min-age ago
+type HeldBackVersion = { version: string; age: number };
+type VersionMetadata = {
+  deprecated?: string;
+  license?: string | { type?: string };
+  engines?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+};
+type PackageMetadata = {
+  versions: Record<string, VersionMetadata>;
+  repository?: string | { url?: string };
+  time?: Record<string, string>;
+  'dist-tags'?: Record<string, string>;
+};
+type ReleasedVersion = { version: string; publishedAt: Date | null };
+type VersionSection = {
+  label: string;
+  versions: Array<ReleasedVersion & { tag: string | null }>;
+};
+type ReleaseNotes = {
+  from: string | null;
+  to: string;
+  versions: Array<ReleasedVersion>;
+  // Null when the package doesn't ship a changelog
+  changelog: Array<string> | null;
+};
+type VersionWarningType =
+  | `deprecated`
+  | `license`
+  | `engines`
+  | `missing`
+  | `patch`;
+type VersionWarning = { type: VersionWarningType; message: string };
+type UpgradeSuggestion = {
+  value: string | null;
+  label: string;
+  warnings: Array<VersionWarning>;
+};
 type UpgradeSuggestions = Array<UpgradeSuggestion>;
+// Each protocol has its own way to list the newer versions, the semver ranges being resolved by Yarn
+type SuggestionProvider = {
+  supports: (descriptor: Descriptor) => boolean;
+  fetchSuggestions: (descriptor: Descriptor) => Promise<UpgradeSuggestions>;
+};
+// `resolved` checks the version locked in the lockfile, `range` (the "range:" operator) intersects the manifest range
+type VersionMatch = `resolved` | `range`;
 type ExcludedDependency = {
   workspace: string | null;
   directory: string | null;
   dependencyPattern: string;
   versionRange: string | null;
+  versionMatch: VersionMatch;
+  // Set by the "~<bump>" rules, which cap the upgrades of the matching dependencies instead of excluding them
+  maxBump: BumpCeiling | null;
+  // Only set for the rules coming from the configuration file
+  reason: string | null;
+};
+
+const DEPENDENCY_TYPES = [
+  `dependencies`,
+  `devDependencies`,
+  `optionalDependencies`,
+  `peerDependencies`,
+  `resolutions`,
+] as const;
+type DependencyType = typeof DEPENDENCY_TYPES[number];
+
+const DEFAULT_DEPENDENCY_TYPES: Array<DependencyType> = [
+  `dependencies`,
+  `devDependencies`,
+  `optionalDependencies`,
+];
+
+const DEPENDENCY_TYPE_BADGES: Record<DependencyType, string | null> = {
+  dependencies: null,
+  devDependencies: `dev`,
+  optionalDependencies: `optional`,
+  peerDependencies: `peer`,
+  resolutions: `resolution`,
+};
+
+type UpgradeCandidate = {
+  workspace: Workspace;
+  dependencyType: DependencyType;
+  descriptor: Descriptor;
+};
+type ExcludedCandidate = UpgradeCandidate & { rule: ExcludedDependency };
+type PlannedUpgrade = UpgradeCandidate & { range: string };
+// A peer requirement that won't be met once the selected upgrades are applied
+type PeerConflict = {
+  workspace: Workspace;
+  dependent: string;
+  dependentVersion: string;
+  peer: string;
+  peerRange: string;
+  peerVersion: string;
+  // The upgrade of the dependent or of the peer that would solve the conflict, if any
+  companion: { key: string; descriptor: Descriptor; range: string } | null;
+};
+type PeerResolution = `companions` | `ignore` | `abort`;
+type UpgradeRow = {
+  key: string;
+  descriptor: Descriptor;
+  // Only set when the rows are listed per workspace
+  workspace: Workspace | null;
+  dependencyTypes: Array<DependencyType>;
+  // The workspaces using the dependency range, even when the rows are listed per workspace
+  workspaces: Array<Workspace>;
+  maxBump: BumpCeiling | null;
+};
+// The rows of a package family, listed as one row whose version is picked for every member
+type UpgradeGroup = {
+  key: string;
+  name: string;
+  workspace: Workspace | null;
+  members: Array<UpgradeRow>;
+};
+type UpgradeItem = UpgradeRow | UpgradeGroup;
+
+const isUpgradeGroup = (item: UpgradeItem): item is UpgradeGroup => {
+  return `members` in item;
+};
+
+const parseDependencyTypes = (list: string): Array<DependencyType> => {
+  return list
+    .split(`,`)
+    .map((type) => type.trim())
+    .filter((type) => type.length > 0)
+    .map((type) => {
+      if (!DEPENDENCY_TYPES.includes(type as DependencyType))
+        throw new UsageError(
+          `Invalid dependency type: ${type}. Expected one of ${DEPENDENCY_TYPES.join(
+            `, `,
+          )}`,
+        );
+
+      return type as DependencyType;
+    });
+};
+
+// Optional dependencies are stored along with the regular ones, they are only flagged in dependenciesMeta
+const isOptionalDependency = (
+  manifest: Manifest,
+  descriptor: Descriptor,
+): boolean => {
+  return (
+    manifest.dependenciesMeta
+      .get(structUtils.stringifyIdent(descriptor))
+      ?.get(null)?.optional === true
+  );
+};
+
+const getManifestDescriptors = (
+  manifest: Manifest,
+  dependencyType: DependencyType,
+): Array<Descriptor> => {
+  switch (dependencyType) {
+    case `dependencies`:
+      return [...manifest.dependencies.values()].filter(
+        (descriptor) => !isOptionalDependency(manifest, descriptor),
+      );
+    case `optionalDependencies`:
+      return [...manifest.dependencies.values()].filter((descriptor) =>
+        isOptionalDependency(manifest, descriptor),
+      );
+    case `devDependencies`:
+      return [...manifest.devDependencies.values()];
+    case `peerDependencies`:
+      return [...manifest.peerDependencies.values()];
+    case `resolutions`:
+      return manifest.resolutions.map(({ pattern, reference }) =>
+        structUtils.makeDescriptor(
+          structUtils.parseIdent(pattern.descriptor.fullName),
+          reference,
+        ),
+      );
+  }
+};
+
+// Peer dependencies are widened rather than replaced, so that the package keeps supporting the versions it supported
+export const widenPeerRange = (
+  currentRange: string,
+  newRange: string,
+): string => {
+  if (!semver.validRange(currentRange) || !semver.validRange(newRange))
+    return newRange;
+
+  if (semver.subset(newRange, currentRange)) return currentRange;
+
+  return `${currentRange} || ${newRange}`;
+};
+
+const setManifestDescriptor = (
+  manifest: Manifest,
+  dependencyType: DependencyType,
+  descriptor: Descriptor,
+  newRange: string,
+) => {
+  switch (dependencyType) {
+    case `dependencies`:
+    case `optionalDependencies`:
+      manifest.dependencies.set(
+        descriptor.identHash,
+        structUtils.makeDescriptor(descriptor, newRange),
+      );
+      break;
+    case `devDependencies`:
+      manifest.devDependencies.set(
+        descriptor.identHash,
+        structUtils.makeDescriptor(descriptor, newRange),
+      );
+      break;
+    case `peerDependencies`:
+      manifest.peerDependencies.set(
+        descriptor.identHash,
+        structUtils.makeDescriptor(
+          descriptor,
+          widenPeerRange(descriptor.range, newRange),
+        ),
+      );
+      break;
+    case `resolutions`:
+      for (const resolution of manifest.resolutions) {
+        const ident = structUtils.parseIdent(
+          resolution.pattern.descriptor.fullName,
+        );
+        if (
+          ident.identHash === descriptor.identHash &&
+          resolution.reference === descriptor.range
+        ) {
+          resolution.reference = newRange;
+        }
+      }
+      break;
+  }
+};
+
+const VERSION_WARNING_BADGES: Record<VersionWarningType, string> = {
+  deprecated: `D`,
+  license: `L`,
+  engines: `E`,
+  missing: `M`,
+  patch: `P`,
+};
+
+const GITHUB_ARCHIVE_URL =
+  /^https:\/\/github\.com\/([^/]+)\/([^/]+)\/archive\/(?:refs\/tags\/)?(.+)\.(?:tar\.gz|tgz|zip)$/;
+const REGISTRY_TARBALL_URL =
+  /^https?:\/\/.+\/((?:@[^/]+\/)?[^/]+)\/-\/[^/]+-([0-9]+\.[0-9]+\.[0-9]+(?:-[0-9A-Za-z.-]+)?)\.tgz$/;
+
+// The patch: ranges and the npm: ranges (aliases included) wrap another descriptor, whose upgrades they're offered
+const unwrapDescriptor = (descriptor: Descriptor): Descriptor | null => {
+  const { protocol, source, selector } = structUtils.parseRange(
+    descriptor.range,
+  );
+
+  if (protocol === `patch:` && source !== null)
+    return structUtils.parseDescriptor(source, true);
+
+  if (protocol === `npm:`)
+    return (
+      structUtils.tryParseDescriptor(selector, true) ??
+      structUtils.makeDescriptor(descriptor, selector)
+    );
+
+  return null;
+};
+
+// Puts the upgraded range of the wrapped descriptor back into its wrapper
+export const rewrapRange = (descriptor: Descriptor, range: string): string => {
+  const parsedRange = structUtils.parseRange(descriptor.range);
+  const inner = unwrapDescriptor(descriptor)!;
+
+  if (parsedRange.protocol === `patch:`)
+    return structUtils.makeRange({
+      ...parsedRange,
+      source: structUtils.stringifyDescriptor(
+        structUtils.makeDescriptor(inner, range),
+      ),
+    });
+
+  return structUtils.tryParseDescriptor(parsedRange.selector, true) !== null
+    ? `npm:${structUtils.stringifyDescriptor(
+        structUtils.makeDescriptor(inner, range),
+      )}`
+    : `npm:${range}`;
+};
+
+// Wrapped ranges are compared by the innermost ranges they wrap
+const getInnermostRanges = (
+  descriptor: Descriptor,
+  range: string,
+): [string, string] => {
+  let from = descriptor;
+  let to = structUtils.makeDescriptor(descriptor, range);
+
+  while (true) {
+    const innerFrom = unwrapDescriptor(from);
+    const innerTo = unwrapDescriptor(to);
+    if (innerFrom === null || innerTo === null) return [from.range, to.range];
+
+    from = innerFrom;
+    to = innerTo;
+  }
+};
+
+// Tags such as v1.2.0 or 1.2.0 are considered as versions
+const parseTagVersion = (tag: string): string | null => {
+  return semver.valid(tag.replace(/^v/, ``));
+};
+
+// Makes the various notations of a repository (git+https, git@, github: shorthand, .git suffix) comparable
+export const normalizeRepositoryUrl = (url: string): string => {
+  return url
+    .trim()
+    .toLowerCase()
+    .replace(/^github:/, `github.com/`)
+    .replace(/^git\+/, ``)
+    .replace(/^[a-z]+:\/\//, ``)
+    .replace(/^git@([^:/]+):/, `$1/`)
+    .replace(/^[^@/]+@/, ``)
+    .replace(/\.git$/, ``)
+    .replace(/\/+$/, ``);
+};
+
+// Old packages may still describe their license as an object
+const getLicense = (manifest: VersionMetadata | undefined): string | null => {
+  if (typeof manifest?.license === `string`) return manifest.license;
+  return manifest?.license?.type ?? null;
+};
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+// Parses durations such as 3d or 12h, expressed in days when no unit is given
+export const parseDuration = (duration: string): number => {
+  const match = duration.match(/^([0-9]+)([mhdw])?$/);
+  if (!match)
+    throw new UsageError(
+      `Invalid duration: ${duration}. Expected a number optionally followed by m, h, d or w (for example 3d)`,
+    );
+
+  return Number(match[1]) * DURATION_UNITS[match[2] ?? `d`];
+};
+
+const formatAge = (age: number): string => {
+  for (const unit of [`d`, `h`])
+    if (age >= DURATION_UNITS[unit])
+      return `${Math.floor(age / DURATION_UNITS[unit])}${unit}`;
+
+  return `${Math.max(0, Math.floor(age / DURATION_UNITS.m))}m`;
+};
+
+// Prints the publish date along with how long ago it was, e.g. 2024-03-01, 3d ago
+const formatReleaseDate = (publishedAt: Date) =>
+  `${publishedAt.toISOString().slice(0, 10)}, ${formatAge(
+    Date.now() - publishedAt.getTime(),
+  )} ago`;
+
+const CHANGELOG_FILENAME =
+  /^(changelog|history|changes)(\.md|\.markdown|\.txt)?$/i;
+const CHANGELOG_VERSION_HEADING =
+  /^#+\s.*?\bv?([0-9]+\.[0-9]+\.[0-9]+(?:-[0-9A-Za-z.-]+)?)/;
+
+// Keeps the sections whose heading mentions a version above from and up to to, such as "## 1.2.0" or "## [1.2.0] - 2024-01-01"
+export const extractReleaseNotes = (
+  changelog: string,
+  from: string | null,
+  to: string,
+): Array<string> => {
+  const notes: Array<string> = [];
+  let included = false;
+
+  for (const line of changelog.split(/\r?\n/)) {
+    const heading = line.match(CHANGELOG_VERSION_HEADING);
+    if (heading) {
+      const version = heading[1];
+      included =
+        semver.valid(version) !== null &&
+        semver.lte(version, to) &&
+        (from === null || semver.gt(version, from));
+    }
+
+    if (included && line.trim() !== ``) notes.push(line);
+  }
+
+  return notes;
+};
+
+const SEMVER_BUMPS = [
+  `modifier`,
+  `major`,
+  `minor`,
+  `patch`,
+  `prerelease`,
+] as const;
+type SemverBump = typeof SEMVER_BUMPS[number];
+
+const BUMP_CEILINGS = [`patch`, `minor`, `major`] as const;
+type BumpCeiling = typeof BUMP_CEILINGS[number];
+
+const SORT_ORDERS = [`name`, `bump`, `type`, `workspace`, `usage`] as const;
+type SortOrder = typeof SORT_ORDERS[number];
+type SortSection = { rank: number; label: string };
+
+// The most significant bumps come first, same as their colors in the upgrade window
+const BUMP_SORT_ORDER: Array<SemverBump> = [
+  `major`,
+  `minor`,
+  `patch`,
+  `prerelease`,
+  `modifier`,
+];
+
+// Returns the lowest of the given ceilings, null meaning that any bump is allowed
+const getStrictestBumpCeiling = (
+  ceilings: Array<BumpCeiling | null>,
+): BumpCeiling | null => {
+  let strictest: BumpCeiling | null = null;
+
+  for (const ceiling of ceilings)
+    if (
+      ceiling !== null &&
+      (strictest === null ||
+        BUMP_CEILINGS.indexOf(ceiling) < BUMP_CEILINGS.indexOf(strictest))
+    )
+      strictest = ceiling;
+
+  return strictest;
+};
+
+// Returns the most significant SIMPLE_SEMVER component that differs between the two ranges
+const getSemverBump = (from: string, to: string): SemverBump | null => {
+  if (from === to) return null;
+
+  const matchedFrom = structUtils
+    .parseRange(from)
+    .selector.match(SIMPLE_SEMVER);
+  const matchedTo = structUtils.parseRange(to).selector.match(SIMPLE_SEMVER);
+
+  if (!matchedFrom || !matchedTo) return null;
+
+  for (let t = 1; t <= SEMVER_BUMPS.length; ++t)
+    if (matchedFrom[t] !== matchedTo[t]) return SEMVER_BUMPS[t - 1];
+
+  return null;
+};
+
+// Ranges that can't be compared aren't considered as major bumps
+const isMajorBump = (from: string, to: string): boolean => {
+  const matchedFrom = structUtils
+    .parseRange(from)
+    .selector.match(SIMPLE_SEMVER);
+  const matchedTo = structUtils.parseRange(to).selector.match(SIMPLE_SEMVER);
+
+  return !!matchedFrom && !!matchedTo && matchedFrom[2] !== matchedTo[2];
+};
+
+// Ranges that can't be compared are considered as going beyond the ceiling
+export const exceedsBumpCeiling = (
+  from: string,
+  to: string,
+  ceiling: BumpCeiling,
+): boolean => {
+  if (from === to) return false;
+
+  const matchedFrom = structUtils
+    .parseRange(from)
+    .selector.match(SIMPLE_SEMVER);
+  const matchedTo = structUtils.parseRange(to).selector.match(SIMPLE_SEMVER);
+
+  if (!matchedFrom || !matchedTo) return true;
+
+  // Unlike getSemverBump, a modifier change must not hide a change of the components above the ceiling
+  for (let t = 2; t <= SEMVER_BUMPS.indexOf(ceiling); ++t)
+    if (matchedFrom[t] !== matchedTo[t]) return true;
+
+  return false;
+};
+
+// Builds the range containing every version above the current one that doesn't go beyond the given bump
+export const getBumpCeilingRange = (
+  range: string,
+  bump: BumpCeiling,
+): string | null => {
+  if (!semver.validRange(range)) return null;
+
+  const minVersion = semver.minVersion(range);
+  if (!minVersion) return null;
+
+  switch (bump) {
+    case `patch`:
+      return `>=${minVersion.version} <${minVersion.major}.${
+        minVersion.minor + 1
+      }.0`;
+    case `minor`:
+      return `>=${minVersion.version} <${minVersion.major + 1}.0.0`;
+    case `major`:
+      return `>=${minVersion.version}`;
+  }
 };
 
 const formatInvalidDependency = (dep: string): string => {
@@ -112,6 +786,9 @@ const parseExcludedItem = (dep: string): ExcludedDependency => {
       directory: null,
       dependencyPattern: parsedDep.dependencyPattern,
       versionRange: parsedDep.versionRange,
+      versionMatch: `resolved`,
+      maxBump: null,
+      reason: null,
     };
   } else if (sections.length === 2) {
     // If we have 2 sections, it means we have a workspace and a dependency pattern
@@ -124,6 +801,9 @@ const parseExcludedItem = (dep: string): ExcludedDependency => {
       directory: parsedLocation.directory || null,
       dependencyPattern: parsedDep.dependencyPattern,
       versionRange: parsedDep.versionRange,
+      versionMatch: `resolved`,
+      maxBump: null,
+      reason: null,
     };
   }
 
@@ -184,11 +864,68 @@ const parsePackageLocation = (
   };
 };
 
+const stringifyExcludedItem = (dep: ExcludedDependency): string => {
+  const location = dep.workspace ?? dep.directory;
+  const operator = dep.versionMatch === `range` ? `range:` : ``;
+  const dependency = dep.maxBump
+    ? `${dep.dependencyPattern}@~${dep.maxBump}`
+    : dep.versionRange
+    ? `${dep.dependencyPattern}@${operator}${dep.versionRange}`
+    : dep.dependencyPattern;
+
+  return location ? `${location}#${dependency}` : dependency;
+};
+
+// Parses a comma-separated list of rules, as given to --exclude and --include
+const parseRuleList = (list: string): Array<ExcludedDependency> => {
+  return list
+    .split(',')
+    .map((dep) => dep.trim())
+    .filter((dep) => dep.length > 0)
+    .map(parseExcludedItem)
+    .map(formatVersionRange);
+};
+
+// Makes the directory of a rule relative to the project root, so that it can be matched against the workspaces relativeCwd
+const resolveRuleDirectory = (
+  dep: ExcludedDependency,
+  projectCwd: PortablePath,
+): ExcludedDependency => {
+  if (!dep.directory) return dep;
+
+  const directory = npath.toPortablePath(dep.directory);
+  const relativeDirectory = ppath.isAbsolute(directory)
+    ? ppath.relative(projectCwd, directory)
+    : directory;
+
+  return {
+    ...dep,
+    directory: normalizePathSelector(relativeDirectory),
+  };
+};
+
 const formatVersionRange = (dep: ExcludedDependency): ExcludedDependency => {
   if (!dep.versionRange) {
     return dep;
   }
 
+  const ceiling = dep.versionRange.match(/^~(patch|minor|major)$/);
+  if (ceiling) {
+    return {
+      ...dep,
+      versionRange: null,
+      maxBump: ceiling[1] as BumpCeiling,
+    };
+  }
+
+  if (dep.versionRange.startsWith(`range:`)) {
+    return formatVersionRange({
+      ...dep,
+      versionRange: dep.versionRange.slice(6), // Remove "range:" prefix
+      versionMatch: `range`,
+    });
+  }
+
   if (dep.versionRange.startsWith('npm:')) {
     // If the version range starts with "npm:", we assume it's a npm alias
     return {
@@ -219,6 +956,18 @@ export default class UpgradeInteractiveCommand extends BaseCommand {
         `Open the upgrade window for specific workspace`,
         `yarn upgrade-interactive-filter @yarnpkg/core`,
       ],
+      [
+        `Open the upgrade window for the workspaces matching a glob pattern`,
+        `yarn upgrade-interactive-filter "@yarnpkg/plugin-*"`,
+      ],
+      [
+        `Open the upgrade window for the workspaces in a directory`,
+        `yarn upgrade-interactive-filter "packages/*"`,
+      ],
+      [
+        `Open the upgrade window for the workspaces changed since the main branch`,
+        `yarn upgrade-interactive-filter --since=main`,
+      ],
       [
         `Open the upgrade window excluding specific packages`,
         `yarn upgrade-interactive-filter @yarnpkg/core --exclude react,typescript`,
@@ -227,6 +976,70 @@ export default class UpgradeInteractiveCommand extends BaseCommand {
         `Open the upgrade window excluding packages using glob patterns`,
         `yarn upgrade-interactive-filter --exclude "@types/*,react-*"`,
       ],
+      [
+        `Open the upgrade window for the type definitions and the lint tooling only`,
+        `yarn upgrade-interactive-filter --include "@types/*,eslint-*"`,
+      ],
+      [
+        `Open the upgrade window for the peer dependencies and the resolutions`,
+        `yarn upgrade-interactive-filter --types peerDependencies,resolutions`,
+      ],
+      [
+        `Only offer minor and patch upgrades, and patch upgrades for typescript`,
+        `yarn upgrade-interactive-filter --max-bump minor --exclude "typescript@~patch"`,
+      ],
+      [
+        `Offer the versions tagged next instead of the latest ones`,
+        `yarn upgrade-interactive-filter --tag next`,
+      ],
+      [
+        `Only suggest versions published more than a week ago`,
+        `yarn upgrade-interactive-filter --min-age 7d`,
+      ],
+      [
+        `Upgrade to the latest versions, except those deprecated, relicensed or incompatible with the running Node`,
+        `yarn upgrade-interactive-filter --non-interactive --policy latest --refuse-warnings`,
+      ],
+      [
+        `Write down why each dependency was listed or excluded`,
+        `yarn upgrade-interactive-filter --exclude "@types/*" --explain=filters.log`,
+      ],
+      [
+        `Print the upgrade candidates as NDJSON`,
+        `yarn upgrade-interactive-filter --json`,
+      ],
+      [
+        `Upgrade every dependency to the highest minor version without opening the upgrade window`,
+        `yarn upgrade-interactive-filter --non-interactive --policy minor`,
+      ],
+      [
+        `Upgrade a dependency in every workspace sharing its range, not only the listed one`,
+        `yarn upgrade-interactive-filter @yarnpkg/core --propagate`,
+      ],
+      [
+        `List the major upgrades first`,
+        `yarn upgrade-interactive-filter --sort bump`,
+      ],
+      [
+        `Pick the upgrades separately for each workspace`,
+        `yarn upgrade-interactive-filter --per-workspace`,
+      ],
+      [
+        `Run the tests once the upgrade is installed, and roll it back when they fail`,
+        `yarn upgrade-interactive-filter --non-interactive --policy minor --verify test`,
+      ],
+      [
+        `Find the upgrades breaking the tests, apply the other ones and exclude the culprits`,
+        `yarn upgrade-interactive-filter --non-interactive --policy latest --verify test --bisect`,
+      ],
+      [
+        `Reopen the upgrade window with the selections of the previous one`,
+        `yarn upgrade-interactive-filter --resume`,
+      ],
+      [
+        `Preview the manifest changes without installing anything`,
+        `yarn upgrade-interactive-filter --dry-run`,
+      ],
     ],
   });
 
@@ -237,16 +1050,120 @@ export default class UpgradeInteractiveCommand extends BaseCommand {
     validator: t.isOptional(t.isString()),
   });
 
-  async execute() {
-    const { ItemOptions } = await import(
-      `@yarnpkg/libui/sources/components/ItemOptions`
-    );
-    const { Pad } = await import(`@yarnpkg/libui/sources/components/Pad`);
-    const { ScrollableItems } = await import(
-      `@yarnpkg/libui/sources/components/ScrollableItems`
-    );
-    const { useMinistore } = await import(
-      `@yarnpkg/libui/sources/hooks/useMinistore`
+  since = Option.String(`--since`, {
+    description: `Only list the workspaces that have been changed since the specified ref (defaults to the changesetBaseRefs configuration)`,
+    tolerateBoolean: true,
+  });
+
+  includeArg = Option.String(`--include`, {
+    description: `A comma-separated list of dependencies to restrict the upgrade to, using the same format as --exclude. Excluded dependencies are never listed, even if they are included`,
+    validator: t.isOptional(t.isString()),
+  });
+
+  nonInteractive = Option.Boolean(`--non-interactive`, false, {
+    description: `Apply the upgrades selected by --policy without opening the upgrade window (for CI and bots)`,
+  });
+
+  policy = Option.String(`--policy`, {
+    description: `The version to pick for each dependency in non-interactive mode (one of ${UPGRADE_POLICIES.join(
+      `, `,
+    )}, defaults to the policy from ${CONFIG_FILENAME} or range)`,
+    validator: t.isOptional(t.isEnum(UPGRADE_POLICIES)),
+  });
+
+  maxBump = Option.String(`--max-bump`, {
+    description: `The most significant semver component an upgrade may change (one of ${BUMP_CEILINGS.join(
+      `, `,
+    )}), shown in its own column and enforced in non-interactive mode. Rules such as typescript@~minor set it for some dependencies only`,
+    validator: t.isOptional(t.isEnum(BUMP_CEILINGS)),
+  });
+
+  tag = Option.String(`--tag`, {
+    description: `The dist-tag offered in the Latest column instead of latest (such as next or beta), also picked by the latest policy`,
+    validator: t.isOptional(t.isString()),
+  });
+
+  minAge = Option.String(`--min-age`, {
+    description: `Only suggest the versions published at least this long ago (for example 3d, 12h or 2w, in days when no unit is given)`,
+    validator: t.isOptional(t.isString()),
+  });
+
+  json = Option.Boolean(`--json`, false, {
+    description: `Print the upgrade candidates and the excluded dependencies as an NDJSON stream instead of opening the upgrade window`,
+  });
+
+  dryRun = Option.Boolean(`--dry-run`, false, {
+    description: `Print the changes that would be made to each package.json instead of applying them`,
+  });
+
+  propagate = Option.Boolean(`--propagate`, false, {
+    description: `Apply the selected upgrades to every workspace using the same range, including the ones filtered out by the workspaces and --exclude`,
+  });
+
+  refuseWarnings = Option.Boolean(`--refuse-warnings`, false, {
+    description: `Never pick a version that is deprecated, changes the license, doesn't support the running Node version or is patched`,
+  });
+
+  groupArg = Option.String(`--group`, {
+    description: `A comma-separated list of globs, each matching a family of packages to upgrade together (such as @babel/*)`,
+    validator: t.isOptional(t.isString()),
+  });
+
+  explain = Option.String(`--explain`, {
+    description: `Report how each include and exclude rule was evaluated for every dependency, in the given file if any`,
+    tolerateBoolean: true,
+  });
+
+  typesArg = Option.String(`--types`, {
+    description: `A comma-separated list of the manifest fields to list the dependencies from (${DEPENDENCY_TYPES.join(
+      `, `,
+    )}), defaults to ${DEFAULT_DEPENDENCY_TYPES.join(`, `)}`,
+    validator: t.isOptional(t.isString()),
+  });
+
+  sort = Option.String(`--sort`, `name`, {
+    description: `The order of the rows in the upgrade window (one of ${SORT_ORDERS.join(
+      `, `,
+    )}), press <s> in the window to change it`,
+    validator: t.isEnum(SORT_ORDERS),
+  });
+
+  perWorkspace = Option.Boolean(`--per-workspace`, false, {
+    description: `List one row per workspace and dependency instead of one row per dependency range`,
+  });
+
+  verify = Option.String(`--verify`, {
+    description: `A script to run after the install in the root workspace and in each upgraded workspace defining it, the upgrade being rolled back when it fails`,
+    validator: t.isOptional(t.isString()),
+  });
+
+  resume = Option.Boolean(`--resume`, false, {
+    description: `Preload the selections saved by the previous upgrade window, or apply them in non-interactive mode`,
+  });
+
+  bisect = Option.Boolean(`--bisect`, false, {
+    description: `When the --verify script fails, find the upgrades breaking it, apply the other ones and exclude the culprits in the configuration file`,
+  });
+
+  async execute() {
+    const { ItemOptions } = await import(
+      `@yarnpkg/libui/sources/components/ItemOptions`
+    );
+    const { Pad } = await import(`@yarnpkg/libui/sources/components/Pad`);
+    const { MinistoreContext } = await import(
+      `@yarnpkg/libui/sources/components/Application`
+    );
+    const { ScrollableItems } = await import(
+      `@yarnpkg/libui/sources/components/ScrollableItems`
+    );
+    const { useKeypress } = await import(
+      `@yarnpkg/libui/sources/hooks/useKeypress`
+    );
+    const { useListInput } = await import(
+      `@yarnpkg/libui/sources/hooks/useListInput`
+    );
+    const { useMinistore } = await import(
+      `@yarnpkg/libui/sources/hooks/useMinistore`
     );
     const { renderForm } = await import(
       `@yarnpkg/libui/sources/misc/renderForm`
@@ -255,12 +1172,32 @@ export default class UpgradeInteractiveCommand extends BaseCommand {
     const {
       default: React,
       useEffect,
+      useMemo,
       useRef,
       useState,
     } = await import(`react`);
 
-    if (!(this.context.stdout as WriteStream).isTTY)
-      throw new UsageError(`This command can only be run in a TTY environment`);
+    if (this.json && this.nonInteractive)
+      throw new UsageError(
+        `The --json and --non-interactive options cannot be used together`,
+      );
+
+    if (this.perWorkspace && this.propagate)
+      throw new UsageError(
+        `The --per-workspace and --propagate options cannot be used together`,
+      );
+
+    const minAge =
+      typeof this.minAge !== `undefined` ? parseDuration(this.minAge) : null;
+
+    if (
+      !this.json &&
+      !this.nonInteractive &&
+      !(this.context.stdout as WriteStream).isTTY
+    )
+      throw new UsageError(
+        `This command can only be run in a TTY environment, use --non-interactive to run it without one`,
+      );
 
     const configuration = await Configuration.find(
       this.context.cwd,
@@ -271,53 +1208,222 @@ export default class UpgradeInteractiveCommand extends BaseCommand {
       this.context.cwd,
     );
 
-    // console.log(workspace);
-
     const cache = await Cache.find(configuration);
 
     if (!workspace)
       throw new WorkspaceRequiredError(project.cwd, this.context.cwd);
 
+    // Workspaces can be selected by name or by directory, both supporting glob patterns
+    const selectWorkspaces = (selector: string): Array<Workspace> => {
+      const isPath = isPathSelector(selector);
+      const pattern = isPath ? normalizePathSelector(selector) : selector;
+
+      const candidates = new Map<string, Workspace>();
+      for (const workspace of project.workspaces) {
+        if (isPath) {
+          candidates.set(workspace.relativeCwd, workspace);
+        } else if (workspace.manifest.name !== null) {
+          candidates.set(
+            structUtils.stringifyIdent(workspace.manifest.name),
+            workspace,
+          );
+        }
+      }
+
+      const matches = [...candidates.entries()]
+        .filter(([name]) => matchesGlob(name, pattern))
+        .map(([, workspace]) => workspace);
+
+      if (matches.length === 0) {
+        const closestName = hasGlobCharacters(pattern)
+          ? null
+          : findClosestName(pattern, [...candidates.keys()]);
+
+        throw new UsageError(
+          `No workspace matches ${selector}${
+            closestName !== null ? ` - did you mean ${closestName}?` : ``
+          }`,
+        );
+      }
+
+      return matches;
+    };
+
     let requiredWorkspaces: Set<IdentHash> | null = null;
 
     // If specific workspaces are provided, filter by them. Otherwise, process all workspaces.
-    if (this.workspaces.length > 0) {
-      requiredWorkspaces = new Set(
-        this.workspaces.map((name) => {
-          const ident = structUtils.parseIdent(name);
-          project.getWorkspaceByIdent(ident);
-          return ident.identHash;
-        }),
-      );
+    if (this.workspaces.length > 0 || this.since) {
+      let selectedWorkspaces =
+        this.workspaces.length > 0
+          ? this.workspaces.flatMap(selectWorkspaces)
+          : project.workspaces;
+
+      if (this.since) {
+        const changedWorkspaces = await gitUtils.fetchChangedWorkspaces({
+          ref: this.since,
+          project,
+        });
+
+        selectedWorkspaces = selectedWorkspaces.filter((workspace) =>
+          changedWorkspaces.has(workspace),
+        );
+      }
+
+      requiredWorkspaces = new Set();
+      for (const selectedWorkspace of selectedWorkspaces) {
+        if (selectedWorkspace.manifest.name !== null) {
+          requiredWorkspaces.add(selectedWorkspace.manifest.name.identHash);
+        }
+      }
     }
 
-    // console.log(requiredWorkspaces);
+    const filterConfiguration = await loadFilterConfiguration(project.cwd);
+    const policy = this.policy ?? filterConfiguration.policy ?? `range`;
+    const verifyScript = this.verify ?? filterConfiguration.verify;
+
+    if (
+      verifyScript !== null &&
+      !project.workspaces.some((workspace) =>
+        scriptUtils.hasWorkspaceScript(workspace, verifyScript),
+      )
+    )
+      throw new UsageError(
+        `No workspace defines the ${verifyScript} script to verify the upgrade with`,
+      );
+
+    if (this.bisect && verifyScript === null)
+      throw new UsageError(
+        `The --bisect option needs a script to verify the upgrades with, set by --verify or in ${CONFIG_FILENAME}`,
+      );
+
+    if (this.bisect && this.dryRun)
+      throw new UsageError(
+        `The --bisect and --dry-run options cannot be used together`,
+      );
+
+    const session = this.resume
+      ? await loadUpgradeSession(configuration)
+      : null;
+
+    if (this.resume && session === null)
+      throw new UsageError(
+        `There is no session to resume, as ${ppath.relative(
+          project.cwd,
+          getSessionPath(configuration),
+        )} doesn't exist`,
+      );
+
+    if (session !== null && session.perWorkspace !== this.perWorkspace)
+      throw new UsageError(
+        `The session was saved ${
+          session.perWorkspace ? `with` : `without`
+        } --per-workspace, and can only be resumed the same way`,
+      );
 
     // Parse excluded dependencies (supports glob patterns)
     const excludeDeps: ExcludedDependency[] = [];
-    if (this.excludeArg) {
-      const excludedList = this.excludeArg
-        .split(',')
-        .map((dep) => dep.trim())
-        .filter((dep) => dep.length > 0)
-        .map(parseExcludedItem)
-        .map(formatVersionRange);
-      excludeDeps.push(...excludedList);
+    const now = new Date();
+
+    const expiredExclusions = filterConfiguration.exclude.filter(
+      ({ expires }) => expires !== null && expires <= now,
+    );
+
+    for (const exclusion of filterConfiguration.exclude) {
+      if (expiredExclusions.includes(exclusion)) continue;
+
+      excludeDeps.push({
+        ...formatVersionRange(parseExcludedItem(exclusion.rule)),
+        reason: exclusion.reason,
+      });
+    }
+
+    if (this.excludeArg) excludeDeps.push(...parseRuleList(this.excludeArg));
+
+    const includeDeps = this.includeArg ? parseRuleList(this.includeArg) : [];
+
+    for (const rules of [excludeDeps, includeDeps]) {
+      for (const [index, rule] of rules.entries()) {
+        rules[index] = resolveRuleDirectory(rule, project.cwd);
+      }
+    }
+
+    // Rules whose location doesn't match any workspace would otherwise be silently ignored
+    const mismatchedRules = [...excludeDeps, ...includeDeps].filter(
+      (rule) =>
+        (rule.workspace || rule.directory) &&
+        !project.workspaces.some((workspace) =>
+          matchesLocation(rule, workspace),
+        ),
+    );
+
+    if (expiredExclusions.length > 0 || mismatchedRules.length > 0) {
+      await StreamReport.start(
+        {
+          configuration,
+          stdout: this.context.stdout,
+          json: this.json,
+          includeFooter: false,
+          // Bots consuming the json output need to know about those as well
+          includeWarnings: true,
+        },
+        async (report) => {
+          for (const { rule, expires } of expiredExclusions) {
+            report.reportWarning(
+              MessageName.UNNAMED,
+              `The ${formatUtils.pretty(
+                configuration,
+                rule,
+                formatUtils.Type.CODE,
+              )} exclusion from ${CONFIG_FILENAME} expired on ${expires!
+                .toISOString()
+                .slice(0, 10)} and is no longer applied`,
+            );
+          }
+
+          for (const rule of mismatchedRules) {
+            report.reportWarning(
+              MessageName.UNNAMED,
+              `The ${formatUtils.pretty(
+                configuration,
+                stringifyExcludedItem(rule),
+                formatUtils.Type.CODE,
+              )} rule doesn't match any workspace location (directories are relative to the project root)`,
+            );
+          }
+        },
+      );
     }
 
-    console.log(`Excluding dependencies:`, excludeDeps);
+    const dependencyTypes = this.typesArg
+      ? parseDependencyTypes(this.typesArg)
+      : DEFAULT_DEPENDENCY_TYPES;
 
-    // Helper function to check if a package should be excluded
-    const isPackageExcluded = (
+    // Helper function to find the rule excluding a package, if any
+    const findExclusionRule = (
       packageName: string,
       workspace: Workspace,
-      versionRange: string,
+      version: DependencyVersion,
+    ): ExcludedDependency | null => {
+      return (
+        excludeDeps.find(
+          (pattern) =>
+            pattern.maxBump === null &&
+            matchesRule(pattern, packageName, workspace, version),
+        ) ?? null
+      );
+    };
+
+    // When no include rule is given, every package is included
+    const isPackageIncluded = (
+      packageName: string,
+      workspace: Workspace,
+      version: DependencyVersion,
     ): boolean => {
-      return excludeDeps.some(
-        (pattern) =>
-          matchesGlob(packageName, pattern.dependencyPattern) &&
-          matchesLocation(pattern, workspace) &&
-          matchesVersionRange(pattern, versionRange),
+      return (
+        includeDeps.length === 0 ||
+        includeDeps.some((pattern) =>
+          matchesRule(pattern, packageName, workspace, version),
+        )
       );
     };
 
@@ -325,135 +1431,2508 @@ export default class UpgradeInteractiveCommand extends BaseCommand {
       restoreResolutions: false,
     });
 
-    // 7 = 1-line command written by the user
-    //   + 2-line prompt
-    //   + 1 newline
-    //   + 1-line header
-    //   + 1 newline
-    //     [...package list]
-    //   + 1 empty line
-    const VIEWPORT_SIZE = (this.context.stdout as WriteStream).rows - 7;
+    const hasBumpCeilings =
+      typeof this.maxBump !== `undefined` ||
+      excludeDeps.some((rule) => rule.maxBump !== null);
 
-    const colorizeRawDiff = (from: string, to: string) => {
-      const diff = diffWords(from, to);
-      let str = ``;
+    // The lockfile entries are keyed by the normalized descriptors (with the default protocol)
+    const getLockedPackage = (descriptor: Descriptor): Package | null => {
+      const normalizedDescriptor =
+        configuration.normalizeDependency(descriptor);
+      const locatorHash = project.storedResolutions.get(
+        normalizedDescriptor.descriptorHash,
+      );
+      if (typeof locatorHash === `undefined`) return null;
 
-      for (const part of diff) {
-        if (part.added) {
-          str += formatUtils.pretty(configuration, part.value, `green`);
-        } else if (!part.removed) {
-          str += part.value;
-        }
-      }
+      return (
+        project.storedPackages.get(locatorHash) ??
+        project.originalPackages.get(locatorHash) ??
+        null
+      );
+    };
 
-      return str;
+    const getDependencyVersion = (
+      descriptor: Descriptor,
+    ): DependencyVersion => {
+      return {
+        range: descriptor.range,
+        resolvedVersion: getLockedPackage(descriptor)?.version ?? null,
+      };
     };
 
-    const colorizeVersionDiff = (from: string, to: string) => {
-      if (from === to) return to;
+    const getBumpCeiling = ({
+      workspace,
+      descriptor,
+    }: UpgradeCandidate): BumpCeiling | null => {
+      const packageName = structUtils.stringifyIdent(descriptor);
+      const version = getDependencyVersion(descriptor);
+
+      return getStrictestBumpCeiling([
+        this.maxBump ?? null,
+        ...excludeDeps
+          .filter(
+            (rule) =>
+              rule.maxBump !== null &&
+              matchesRule(rule, packageName, workspace, version),
+          )
+          .map((rule) => rule.maxBump),
+      ]);
+    };
+
+    // Every mode (interactive, non-interactive, json) must work on the exact same candidates
+    const explainDependency = (
+      { workspace, dependencyType, descriptor }: UpgradeCandidate,
+      explain: (line: string) => void,
+    ) => {
+      const packageName = structUtils.stringifyIdent(descriptor);
+      const version = getDependencyVersion(descriptor);
 
-      const parsedFrom = structUtils.parseRange(from);
-      const parsedTo = structUtils.parseRange(to);
+      explain(
+        `${structUtils.stringifyIdent(
+          workspace.anchoredLocator,
+        )} › ${dependencyType} › ${structUtils.stringifyDescriptor(
+          descriptor,
+        )} (${
+          version.resolvedVersion !== null
+            ? `locked at ${version.resolvedVersion}`
+            : `not in the lockfile`
+        })`,
+      );
 
-      const matchedFrom = parsedFrom.selector.match(SIMPLE_SEMVER);
-      const matchedTo = parsedTo.selector.match(SIMPLE_SEMVER);
+      for (const [kind, rules] of [
+        [`include`, includeDeps],
+        [`exclude`, excludeDeps],
+      ] as const) {
+        for (const rule of rules) {
+          const evaluation = evaluateRule(
+            rule,
+            packageName,
+            workspace,
+            version,
+          );
+          const clauses = (
+            Object.keys(evaluation) as Array<keyof RuleEvaluation>
+          ).map((clause) => `${clause} ${evaluation[clause] ? `✓` : `✗`}`);
 
-      if (!matchedFrom || !matchedTo) return colorizeRawDiff(from, to);
+          explain(
+            `  ${
+              rule.maxBump !== null ? `ceiling` : kind
+            } ${stringifyExcludedItem(rule)}: ${clauses.join(`, `)}`,
+          );
+        }
+      }
 
-      const SEMVER_COLORS = [
-        `gray`, // modifier
-        `red`, // major
-        `yellow`, // minor
-        `green`, // patch
-        `magenta`, // rc
-      ];
+      if (!isPackageIncluded(packageName, workspace, version)) {
+        explain(`  → skipped, no include rule matches`);
+        return;
+      }
 
-      let color: string | null = null;
-      let res = ``;
+      const rule = findExclusionRule(packageName, workspace, version);
+      const ceiling = getBumpCeiling({ workspace, dependencyType, descriptor });
+      explain(
+        rule !== null
+          ? `  → excluded by ${stringifyExcludedItem(rule)}`
+          : ceiling !== null
+          ? `  → listed, capped to ${ceiling} upgrades`
+          : `  → listed`,
+      );
+    };
 
-      for (let t = 1; t < SEMVER_COLORS.length; ++t) {
-        if (color !== null || matchedFrom[t] !== matchedTo[t]) {
-          if (color === null) color = SEMVER_COLORS[t - 1];
+    const collectCandidates = ({
+      explain,
+    }: { explain?: (line: string) => void } = {}) => {
+      const candidates: Array<UpgradeCandidate> = [];
+      const excluded: Array<ExcludedCandidate> = [];
 
-          res += formatUtils.pretty(configuration, matchedTo[t], color);
-        } else {
-          res += matchedTo[t];
+      for (const workspace of project.workspaces) {
+        if (
+          workspace.manifest.name?.identHash &&
+          (requiredWorkspaces === null ||
+            requiredWorkspaces.has(workspace.manifest.name.identHash))
+        ) {
+          for (const dependencyType of dependencyTypes) {
+            // Yarn only honors the resolutions of the top-level workspace
+            if (
+              dependencyType === `resolutions` &&
+              workspace !== project.topLevelWorkspace
+            )
+              continue;
+
+            for (const descriptor of getManifestDescriptors(
+              workspace.manifest,
+              dependencyType,
+            )) {
+              if (project.tryWorkspaceByDescriptor(descriptor) === null) {
+                if (explain)
+                  explainDependency(
+                    { workspace, dependencyType, descriptor },
+                    explain,
+                  );
+
+                const packageName = structUtils.stringifyIdent(descriptor);
+                const version = getDependencyVersion(descriptor);
+                if (!isPackageIncluded(packageName, workspace, version))
+                  continue;
+
+                const rule = findExclusionRule(packageName, workspace, version);
+
+                // Skip excluded dependencies
+                if (rule === null) {
+                  candidates.push({ workspace, dependencyType, descriptor });
+                } else {
+                  excluded.push({
+                    workspace,
+                    dependencyType,
+                    descriptor,
+                    rule,
+                  });
+                }
+              }
+            }
+          }
         }
       }
 
-      return res;
+      return { candidates, excluded };
     };
 
-    const fetchUpdatedDescriptor = async (
-      descriptor: Descriptor,
-      copyStyle: string,
-      range: string,
-    ) => {
-      const candidate = await suggestUtils.fetchDescriptorFrom(
-        descriptor,
-        range,
-        { project, cache, preserveModifier: copyStyle, workspace },
-      );
+    if (this.explain) {
+      const lines: Array<string> = [];
+      collectCandidates({ explain: (line) => lines.push(line) });
 
-      if (candidate !== null) {
-        return candidate.range;
+      if (typeof this.explain === `string`) {
+        await xfs.writeFilePromise(
+          ppath.resolve(this.context.cwd, npath.toPortablePath(this.explain)),
+          `${lines.join(`\n`)}\n`,
+        );
       } else {
-        return descriptor.range;
+        await StreamReport.start(
+          {
+            configuration,
+            stdout: this.context.stdout,
+            json: this.json,
+            includeFooter: false,
+            includeInfos: true,
+          },
+          async (report) => {
+            for (const line of lines) {
+              report.reportInfo(MessageName.UNNAMED, line);
+            }
+          },
+        );
       }
+    }
+
+    // Selections are made per dependency range, unless the rows are listed per workspace
+    const getUpdateRequestKey = ({
+      workspace,
+      dependencyType,
+      descriptor,
+    }: UpgradeCandidate): string => {
+      return this.perWorkspace
+        ? `${workspace.anchoredLocator.locatorHash}/${dependencyType}/${descriptor.descriptorHash}`
+        : descriptor.descriptorHash;
     };
 
-    const fetchSuggestions = async (
-      descriptor: Descriptor,
-    ): Promise<UpgradeSuggestions> => {
-      const referenceRange = semver.valid(descriptor.range)
-        ? `^${descriptor.range}`
-        : descriptor.range;
+    // Candidates sharing a selection also share the strictest of their ceilings
+    const collectBumpCeilings = (
+      candidates: Array<UpgradeCandidate>,
+    ): Map<string, BumpCeiling | null> => {
+      const bumpCeilings = new Map<string, BumpCeiling | null>();
 
-      const [resolution, latest] = await Promise.all([
-        fetchUpdatedDescriptor(
-          descriptor,
-          descriptor.range,
-          referenceRange,
-        ).catch(() => null),
-        fetchUpdatedDescriptor(descriptor, descriptor.range, `latest`).catch(
-          () => null,
-        ),
-      ]);
+      for (const candidate of candidates) {
+        const key = getUpdateRequestKey(candidate);
+        bumpCeilings.set(
+          key,
+          getStrictestBumpCeiling([
+            bumpCeilings.get(key) ?? null,
+            getBumpCeiling(candidate),
+          ]),
+        );
+      }
 
-      const suggestions: Array<{ value: string | null; label: string }> = [
-        {
-          value: null,
-          label: descriptor.range,
-        },
-      ];
+      return bumpCeilings;
+    };
 
-      if (resolution && resolution !== descriptor.range) {
-        suggestions.push({
-          value: resolution,
-          label: colorizeVersionDiff(descriptor.range, resolution),
-        });
-      } else {
-        suggestions.push({ value: null, label: `` });
+    const collectRows = (): Array<UpgradeRow> => {
+      const { candidates } = collectCandidates();
+      const bumpCeilings = collectBumpCeilings(candidates);
+
+      const workspacesByDescriptor = new Map<DescriptorHash, Set<Workspace>>();
+      for (const { workspace, descriptor } of candidates) {
+        miscUtils
+          .getSetWithDefault(workspacesByDescriptor, descriptor.descriptorHash)
+          .add(workspace);
       }
 
-      if (latest && latest !== resolution && latest !== descriptor.range) {
-        suggestions.push({
-          value: latest,
-          label: colorizeVersionDiff(descriptor.range, latest),
+      const getWorkspaces = (descriptor: Descriptor) => {
+        return [
+          ...(workspacesByDescriptor.get(descriptor.descriptorHash) ?? []),
+        ];
+      };
+
+      if (!this.perWorkspace) {
+        const rowsByDescriptor = new Map<DescriptorHash, UpgradeRow>();
+
+        for (const { descriptor, dependencyType } of candidates) {
+          const row = miscUtils.getFactoryWithDefault(
+            rowsByDescriptor,
+            descriptor.descriptorHash,
+            () => ({
+              key: descriptor.descriptorHash,
+              descriptor,
+              workspace: null,
+              dependencyTypes: [],
+              workspaces: getWorkspaces(descriptor),
+              maxBump: bumpCeilings.get(descriptor.descriptorHash) ?? null,
+            }),
+          );
+
+          if (!row.dependencyTypes.includes(dependencyType)) {
+            row.dependencyTypes.push(dependencyType);
+          }
+        }
+
+        return miscUtils.sortMap(rowsByDescriptor.values(), (row) => {
+          return structUtils.stringifyDescriptor(row.descriptor);
         });
+      }
+
+      const sortedCandidates = miscUtils.sortMap(candidates, [
+        (candidate) =>
+          structUtils.stringifyIdent(candidate.workspace.anchoredLocator),
+        (candidate) => structUtils.stringifyDescriptor(candidate.descriptor),
+        (candidate) => candidate.dependencyType,
+      ]);
+
+      return sortedCandidates.map((candidate) => ({
+        key: getUpdateRequestKey(candidate),
+        descriptor: candidate.descriptor,
+        workspace: candidate.workspace,
+        dependencyTypes: [candidate.dependencyType],
+        workspaces: getWorkspaces(candidate.descriptor),
+        maxBump: bumpCeilings.get(getUpdateRequestKey(candidate)) ?? null,
+      }));
+    };
+
+    // Unless asked otherwise, only the workspaces and dependencies that were listed get upgraded
+    const collectTargets = (): Array<UpgradeCandidate> => {
+      const targets: Array<UpgradeCandidate> = [];
+      if (this.propagate) {
+        for (const workspace of project.workspaces) {
+          for (const dependencyType of dependencyTypes) {
+            for (const descriptor of getManifestDescriptors(
+              workspace.manifest,
+              dependencyType,
+            )) {
+              targets.push({ workspace, dependencyType, descriptor });
+            }
+          }
+        }
       } else {
-        suggestions.push({ value: null, label: `` });
+        targets.push(...collectCandidates().candidates);
       }
 
-      return suggestions;
+      return targets;
     };
 
-    const Prompt = () => {
-      return (
-        <Box flexDirection={`row`}>
-          <Box flexDirection={`column`} width={49}>
-            <Box marginLeft={1}>
-              <Text>
+    const applyUpdateRequests = (
+      updateRequests: Map<string, string | null>,
+    ): Set<Workspace> => {
+      const changedWorkspaces = new Set<Workspace>();
+
+      for (const target of collectTargets()) {
+        const { workspace, dependencyType, descriptor } = target;
+        const newRange = updateRequests.get(getUpdateRequestKey(target));
+
+        if (typeof newRange !== `undefined` && newRange !== null) {
+          setManifestDescriptor(
+            workspace.manifest,
+            dependencyType,
+            descriptor,
+            newRange,
+          );
+          changedWorkspaces.add(workspace);
+        }
+      }
+
+      return changedWorkspaces;
+    };
+
+    // Mirrors Workspace#persistManifest, without writing anything to the disk
+    const printManifestDiffs = async (workspaces: Set<Workspace>) => {
+      const sortedWorkspaces = miscUtils.sortMap(
+        workspaces,
+        (workspace) => workspace.relativeCwd,
+      );
+
+      for (const workspace of sortedWorkspaces) {
+        const manifestPath = ppath.join(workspace.cwd, Manifest.fileName);
+        const manifestName = ppath.join(
+          workspace.relativeCwd,
+          Manifest.fileName,
+        );
+
+        const data = {};
+        workspace.manifest.exportTo(data);
+
+        const before = await xfs.readFilePromise(manifestPath, `utf8`);
+        const after = `${JSON.stringify(
+          data,
+          null,
+          workspace.manifest.indent,
+        )}\n`;
+
+        const patch = createTwoFilesPatch(
+          `a/${manifestName}`,
+          `b/${manifestName}`,
+          before,
+          after,
+        );
+
+        for (const line of patch.split(`\n`).slice(1)) {
+          if (line.startsWith(`+`)) {
+            this.context.stdout.write(
+              `${formatUtils.pretty(configuration, line, `green`)}\n`,
+            );
+          } else if (line.startsWith(`-`)) {
+            this.context.stdout.write(
+              `${formatUtils.pretty(configuration, line, `red`)}\n`,
+            );
+          } else if (line.startsWith(`@@`)) {
+            this.context.stdout.write(
+              `${formatUtils.pretty(configuration, line, `cyan`)}\n`,
+            );
+          } else {
+            this.context.stdout.write(`${line}\n`);
+          }
+        }
+      }
+    };
+
+    const commitUpdateRequests = async (
+      updateRequests: Map<string, string | null>,
+    ): Promise<number> => {
+      if (this.bisect && verifyScript !== null)
+        return await bisectUpdateRequests(updateRequests, verifyScript);
+
+      const upgradeDescriptions = describeUpdateRequests(updateRequests);
+      const changedWorkspaces = applyUpdateRequests(updateRequests);
+      if (changedWorkspaces.size === 0) return 0;
+
+      if (this.dryRun) {
+        await printManifestDiffs(changedWorkspaces);
+        return 0;
+      }
+
+      if (verifyScript === null) return await installProject();
+
+      return await installAndVerify(
+        changedWorkspaces,
+        upgradeDescriptions,
+        verifyScript,
+      );
+    };
+
+    const installProject = async (): Promise<number> => {
+      const installReport = await StreamReport.start(
+        {
+          configuration,
+          stdout: this.context.stdout,
+          includeLogs: !this.context.quiet,
+        },
+        async (report) => {
+          await project.install({ cache, report });
+        },
+      );
+
+      return installReport.exitCode();
+    };
+
+    // Lists the upgrades once per range, before they're applied to the manifests
+    const describeUpdateRequests = (
+      updateRequests: Map<string, string | null>,
+    ): Array<string> => {
+      const descriptions = new Set<string>();
+
+      for (const target of collectTargets()) {
+        const newRange = updateRequests.get(getUpdateRequestKey(target));
+        if (typeof newRange === `undefined` || newRange === null) continue;
+
+        descriptions.add(describeUpgrade(target.descriptor, newRange));
+      }
+
+      return [...descriptions];
+    };
+
+    const describeUpgrade = (descriptor: Descriptor, newRange: string) => {
+      return `${structUtils.prettyDescriptor(
+        configuration,
+        descriptor,
+      )} → ${colorizeVersionDiff(descriptor.range, newRange)}`;
+    };
+
+    // The install persists the project, which rewrites the lockfile and the manifest of every workspace (not only the upgraded ones)
+    const snapshotProjectFiles = async (): Promise<
+      Map<PortablePath, string | null>
+    > => {
+      const snapshot = new Map<PortablePath, string | null>();
+      const paths = [
+        ppath.join(project.cwd, Filename.lockfile),
+        ...project.workspaces.map((workspace) =>
+          ppath.join(workspace.cwd, Manifest.fileName),
+        ),
+      ];
+
+      for (const path of paths)
+        snapshot.set(
+          path,
+          xfs.existsSync(path) ? await xfs.readFilePromise(path, `utf8`) : null,
+        );
+
+      return snapshot;
+    };
+
+    const restoreProjectFiles = async (
+      snapshot: Map<PortablePath, string | null>,
+    ) => {
+      for (const [path, content] of snapshot) {
+        if (content === null) {
+          await xfs.removePromise(path);
+        } else {
+          await xfs.writeFilePromise(path, content);
+        }
+      }
+    };
+
+    // Returns why the verification failed, if it did
+    const runVerifyScript = async (
+      verifiedProject: Project,
+      workspaces: Set<Workspace>,
+      verifyScript: string,
+    ): Promise<string | null> => {
+      const verifiedWorkspaces = miscUtils.sortMap(
+        new Set([verifiedProject.topLevelWorkspace, ...workspaces]),
+        (workspace) => workspace.relativeCwd,
+      );
+
+      for (const workspace of verifiedWorkspaces) {
+        if (!scriptUtils.hasWorkspaceScript(workspace, verifyScript)) continue;
+
+        const exitCode = await scriptUtils.executeWorkspaceScript(
+          workspace,
+          verifyScript,
+          [],
+          {
+            stdin: this.context.stdin,
+            stdout: this.context.stdout,
+            stderr: this.context.stderr,
+          },
+        );
+
+        if (exitCode !== 0)
+          return `the ${verifyScript} script of ${structUtils.prettyWorkspace(
+            configuration,
+            workspace,
+          )} exited with code ${exitCode}`;
+      }
+
+      return null;
+    };
+
+    const installAndVerify = async (
+      changedWorkspaces: Set<Workspace>,
+      upgradeDescriptions: Array<string>,
+      verifyScript: string,
+    ): Promise<number> => {
+      const snapshot = await snapshotProjectFiles();
+
+      const installExitCode = await installProject();
+      const failure =
+        installExitCode !== 0
+          ? `the install failed`
+          : await runVerifyScript(project, changedWorkspaces, verifyScript);
+      if (failure === null) return 0;
+
+      await restoreProjectFiles(snapshot);
+
+      const rollbackReport = await StreamReport.start(
+        {
+          configuration,
+          stdout: this.context.stdout,
+          includeLogs: !this.context.quiet,
+        },
+        async (report) => {
+          // The in-memory manifests still hold the upgrades, the restored files have to be loaded again
+          const { project: restoredProject } = await Project.find(
+            configuration,
+            this.context.cwd,
+          );
+          await restoredProject.install({ cache, report });
+
+          report.reportError(
+            MessageName.UNNAMED,
+            `The upgrade was rolled back because ${failure}. It contained:`,
+          );
+          for (const description of upgradeDescriptions)
+            report.reportInfo(MessageName.UNNAMED, `  ${description}`);
+        },
+      );
+
+      return rollbackReport.exitCode();
+    };
+
+    // Each attempt starts over from the files of the project as they were before the upgrade
+    const tryUpgrades = async (
+      snapshot: Map<PortablePath, string | null>,
+      upgrades: Array<PlannedUpgrade>,
+      verifyScript: string,
+      title: string,
+    ): Promise<string | null> => {
+      await restoreProjectFiles(snapshot);
+
+      const { project: trialProject } = await Project.find(
+        configuration,
+        this.context.cwd,
+      );
+
+      const trialWorkspaces = new Set<Workspace>();
+      for (const { workspace, dependencyType, descriptor, range } of upgrades) {
+        const trialWorkspace = trialProject.getWorkspaceByCwd(workspace.cwd);
+        setManifestDescriptor(
+          trialWorkspace.manifest,
+          dependencyType,
+          descriptor,
+          range,
+        );
+        trialWorkspaces.add(trialWorkspace);
+      }
+
+      const installReport = await StreamReport.start(
+        {
+          configuration,
+          stdout: this.context.stdout,
+          includeLogs: !this.context.quiet,
+        },
+        async (report) => {
+          report.reportInfo(MessageName.UNNAMED, title);
+          await trialProject.install({ cache, report });
+        },
+      );
+      if (installReport.exitCode() !== 0) return `the install failed`;
+
+      return await runVerifyScript(trialProject, trialWorkspaces, verifyScript);
+    };
+
+    // The culprits stay excluded as long as the manifest range allows their current version
+    const makeBisectExclusion = (
+      { workspace, descriptor, range }: PlannedUpgrade,
+      verifyScript: string,
+    ): ConfiguredExclusion => {
+      const location = this.perWorkspace ? `${workspace.relativeCwd}#` : ``;
+      const version = semver.validRange(descriptor.range)
+        ? `@range:${descriptor.range}`
+        : ``;
+
+      return {
+        rule: `${location}${structUtils.stringifyIdent(descriptor)}${version}`,
+        reason: `Upgrading to ${range} broke the ${verifyScript} script`,
+        expires: null,
+      };
+    };
+
+    const bisectUpdateRequests = async (
+      updateRequests: Map<string, string | null>,
+      verifyScript: string,
+    ): Promise<number> => {
+      const upgradesByKey = new Map<string, Array<PlannedUpgrade>>();
+      for (const target of collectTargets()) {
+        const key = getUpdateRequestKey(target);
+        const range = updateRequests.get(key);
+        if (typeof range === `undefined` || range === null) continue;
+
+        miscUtils.getArrayWithDefault(upgradesByKey, key).push({
+          ...target,
+          range,
+        });
+      }
+      if (upgradesByKey.size === 0) return 0;
+
+      const keys = [...upgradesByKey.keys()];
+      const snapshot = await snapshotProjectFiles();
+
+      // The subsets are kept in the selection order, so that none of them is tried twice
+      const failures = new Map<string, Promise<string | null>>();
+      let installedSubset: string | null = null;
+
+      const trySubset = (subset: Array<string>) => {
+        const sortedSubset = keys.filter((key) => subset.includes(key));
+        const subsetId = sortedSubset.join(`,`);
+
+        return miscUtils.getFactoryWithDefault(failures, subsetId, async () => {
+          installedSubset = subsetId;
+          return await tryUpgrades(
+            snapshot,
+            sortedSubset.flatMap((key) => upgradesByKey.get(key)!),
+            verifyScript,
+            `Trying ${sortedSubset.length} of the ${keys.length} upgrades`,
+          );
+        });
+      };
+
+      // Narrows the suspects down to the ones failing along with the base upgrades, which pass on their own
+      const narrowCulprits = async (
+        base: Array<string>,
+        suspects: Array<string>,
+      ): Promise<Array<string>> => {
+        if (suspects.length === 1) return suspects;
+
+        const left = suspects.slice(0, suspects.length >> 1);
+        const right = suspects.slice(suspects.length >> 1);
+
+        if ((await trySubset([...base, ...left])) !== null)
+          return await narrowCulprits(base, left);
+        if ((await trySubset([...base, ...right])) !== null)
+          return await narrowCulprits(base, right);
+
+        // The failure needs upgrades from both halves
+        const leftCulprits = await narrowCulprits([...base, ...right], left);
+        const rightCulprits = await narrowCulprits(
+          [...base, ...leftCulprits],
+          right,
+        );
+
+        return [...leftCulprits, ...rightCulprits];
+      };
+
+      const baseFailure = await trySubset([]);
+      if (baseFailure !== null) {
+        const baseReport = await StreamReport.start(
+          { configuration, stdout: this.context.stdout, includeFooter: false },
+          async (report) => {
+            report.reportError(
+              MessageName.UNNAMED,
+              `Nothing was upgraded, as ${baseFailure} before any upgrade`,
+            );
+          },
+        );
+
+        return baseReport.exitCode();
+      }
+
+      const culprits: Array<string> = [];
+      let healthyKeys = keys;
+
+      while (
+        healthyKeys.length > 0 &&
+        (await trySubset(healthyKeys)) !== null
+      ) {
+        const foundCulprits = await narrowCulprits([], healthyKeys);
+        culprits.push(...foundCulprits);
+        healthyKeys = healthyKeys.filter((key) => !foundCulprits.includes(key));
+      }
+
+      // The last attempt may not have been the healthy upgrades
+      if (installedSubset !== healthyKeys.join(`,`))
+        await tryUpgrades(
+          snapshot,
+          healthyKeys.flatMap((key) => upgradesByKey.get(key)!),
+          verifyScript,
+          `Applying the ${healthyKeys.length} healthy upgrades`,
+        );
+
+      const culpritUpgrades = culprits.flatMap(
+        (key) => upgradesByKey.get(key)!,
+      );
+
+      const exclusions = new Map<string, ConfiguredExclusion>();
+      for (const upgrade of culpritUpgrades) {
+        const exclusion = makeBisectExclusion(upgrade, verifyScript);
+        exclusions.set(exclusion.rule, exclusion);
+      }
+
+      const bisectReport = await StreamReport.start(
+        { configuration, stdout: this.context.stdout, includeFooter: false },
+        async (report) => {
+          if (culprits.length === 0) {
+            report.reportInfo(
+              MessageName.UNNAMED,
+              `The ${keys.length} upgrades pass the ${verifyScript} script`,
+            );
+            return;
+          }
+
+          report.reportError(
+            MessageName.UNNAMED,
+            `${culprits.length} of the ${keys.length} upgrades break the ${verifyScript} script:`,
+          );
+          for (const description of new Set(
+            culpritUpgrades.map(({ descriptor, range }) =>
+              describeUpgrade(descriptor, range),
+            ),
+          ))
+            report.reportInfo(MessageName.UNNAMED, `  ${description}`);
+
+          report.reportInfo(
+            MessageName.UNNAMED,
+            `The ${healthyKeys.length} other upgrades were applied`,
+          );
+        },
+      );
+      if (exclusions.size === 0) return bisectReport.exitCode();
+
+      // The configuration file is shared with the rest of the team, so it's only edited once the user agrees
+      const isConfirmed =
+        !this.nonInteractive &&
+        (this.context.stdin as ReadStream).isTTY === true &&
+        (await askConfirmation(
+          this.context.stdin,
+          this.context.stdout,
+          `Add the ${exclusions.size} culprits to the exclude rules of ${CONFIG_FILENAME}?`,
+        ));
+      const isExcluded =
+        isConfirmed &&
+        (await addConfiguredExclusions(project.cwd, [...exclusions.values()]));
+
+      await StreamReport.start(
+        { configuration, stdout: this.context.stdout, includeFooter: false },
+        async (report) => {
+          if (isExcluded) {
+            report.reportInfo(
+              MessageName.UNNAMED,
+              `The culprits were added to the exclude rules of ${CONFIG_FILENAME}`,
+            );
+            return;
+          }
+
+          report.reportInfo(
+            MessageName.UNNAMED,
+            isConfirmed
+              ? `The exclude list of ${CONFIG_FILENAME} couldn't be extended without rewriting it, add these rules to it to stop suggesting the culprits:`
+              : `Add these rules to the exclude list of ${CONFIG_FILENAME} to stop suggesting the culprits:`,
+          );
+        },
+      );
+
+      // The rules are printed as they are, so that they can be copied into the file
+      if (!isExcluded)
+        for (const exclusion of exclusions.values())
+          for (const line of formatConfiguredExclusion(exclusion))
+            this.context.stdout.write(`${line}\n`);
+
+      return bisectReport.exitCode();
+    };
+
+    // 11 = 1-line command written by the user
+    //   + 6-line prompt
+    //   + 1 newline
+    //   + 1-line header
+    //   + 1 newline
+    //     [...package list]
+    //   + 1 empty line
+    const VIEWPORT_SIZE = (this.context.stdout as WriteStream).rows - 11;
+
+    // The release notes and the version picker take the bottom half of the viewport when they're shown
+    const RELEASE_NOTES_SIZE = VIEWPORT_SIZE >> 1;
+
+    const colorizeRawDiff = (from: string, to: string) => {
+      const diff = diffWords(from, to);
+      let str = ``;
+
+      for (const part of diff) {
+        if (part.added) {
+          str += formatUtils.pretty(configuration, part.value, `green`);
+        } else if (!part.removed) {
+          str += part.value;
+        }
+      }
+
+      return str;
+    };
+
+    const colorizeVersionDiff = (from: string, to: string) => {
+      if (from === to) return to;
+
+      const bump = getSemverBump(from, to);
+      if (bump === null) return colorizeRawDiff(from, to);
+
+      const SEMVER_COLORS: Record<SemverBump, string> = {
+        modifier: `gray`,
+        major: `red`,
+        minor: `yellow`,
+        patch: `green`,
+        prerelease: `magenta`,
+      };
+
+      const matchedTo = structUtils
+        .parseRange(to)
+        .selector.match(SIMPLE_SEMVER)!;
+      const bumpIndex = SEMVER_BUMPS.indexOf(bump) + 1;
+
+      let res = ``;
+
+      // The prerelease component is never printed, same as upstream
+      for (let t = 1; t < SEMVER_BUMPS.length; ++t) {
+        if (t >= bumpIndex) {
+          res += formatUtils.pretty(
+            configuration,
+            matchedTo[t],
+            SEMVER_COLORS[bump],
+          );
+        } else {
+          res += matchedTo[t];
+        }
+      }
+
+      return res;
+    };
+
+    const packageMetadata = new Map<
+      IdentHash,
+      Promise<PackageMetadata | null>
+    >();
+
+    const fetchIdentMetadata = (
+      ident: Ident,
+    ): Promise<PackageMetadata | null> => {
+      return miscUtils.getFactoryWithDefault(
+        packageMetadata,
+        ident.identHash,
+        () =>
+          npmHttpUtils
+            .get(npmHttpUtils.getIdentUrl(ident), {
+              configuration,
+              ident,
+              jsonResponse: true,
+            })
+            .catch(() => null),
+      );
+    };
+
+    // Only the dependencies coming from the npm registry have publish times
+    const fetchPackageMetadata = (
+      descriptor: Descriptor,
+    ): Promise<PackageMetadata | null> => {
+      const { protocol, selector } = structUtils.parseRange(descriptor.range);
+      if (
+        (protocol !== null && protocol !== `npm:`) ||
+        !semver.validRange(selector)
+      )
+        return Promise.resolve(null);
+
+      return fetchIdentMetadata(descriptor);
+    };
+
+    // Versions without a publish time are never held back
+    const getReleaseAge = (
+      metadata: PackageMetadata,
+      version: string,
+    ): number | null => {
+      const publishedAt = metadata.time?.[version];
+      return publishedAt ? Date.now() - new Date(publishedAt).getTime() : null;
+    };
+
+    const getReleaseDate = (
+      metadata: PackageMetadata,
+      version: string,
+    ): Date | null => {
+      const publishedAt = metadata.time?.[version];
+      return publishedAt ? new Date(publishedAt) : null;
+    };
+
+    const isTooFresh = (metadata: PackageMetadata, version: string) => {
+      const age = getReleaseAge(metadata, version);
+      return minAge !== null && age !== null && age < minAge;
+    };
+
+    const getRangeVersion = (range: string): string | null => {
+      const { selector } = structUtils.parseRange(range);
+      return semver.validRange(selector)
+        ? semver.minVersion(selector)?.version ?? null
+        : null;
+    };
+
+    const fetchUpdatedDescriptor = async (
+      descriptor: Descriptor,
+      copyStyle: string,
+      range: string,
+    ) => {
+      const candidate = await suggestUtils.fetchDescriptorFrom(
+        descriptor,
+        range,
+        { project, cache, preserveModifier: copyStyle, workspace },
+      );
+
+      if (candidate === null) return descriptor.range;
+      if (minAge === null) return candidate.range;
+
+      const metadata = await fetchPackageMetadata(descriptor);
+      const version = getRangeVersion(candidate.range);
+      if (
+        metadata === null ||
+        version === null ||
+        !isTooFresh(metadata, version)
+      )
+        return candidate.range;
+
+      // Falls back on the newest version old enough that matches the same request, without going below the current range
+      const currentVersion = getRangeVersion(descriptor.range);
+      const fallback = semver.maxSatisfying(
+        Object.keys(metadata.versions).filter(
+          (version) =>
+            !isTooFresh(metadata, version) &&
+            (currentVersion === null || semver.gte(version, currentVersion)),
+        ),
+        semver.validRange(range) ? range : `<=${version}`,
+      );
+      if (fallback === null) return descriptor.range;
+
+      // Yarn pins the version when the modifier would resolve to a fresher one
+      const fallbackCandidate = await suggestUtils.fetchDescriptorFrom(
+        descriptor,
+        fallback,
+        { project, cache, preserveModifier: copyStyle, workspace },
+      );
+
+      return fallbackCandidate?.range ?? descriptor.range;
+    };
+
+    // Lists the versions the Range and Latest columns would have offered without --min-age
+    const fetchHeldBackVersions = async (
+      descriptor: Descriptor,
+    ): Promise<Array<HeldBackVersion>> => {
+      if (minAge === null) return [];
+
+      const metadata = await fetchPackageMetadata(descriptor);
+      if (metadata === null) return [];
+
+      const { selector } = structUtils.parseRange(descriptor.range);
+      const versions = Object.keys(metadata.versions);
+      const currentVersion = getRangeVersion(descriptor.range);
+
+      const heldBackVersions = new Set([
+        semver.maxSatisfying(
+          versions,
+          semver.valid(selector) ? `^${selector}` : selector,
+        ),
+        // Same tag as the Latest column
+        metadata[`dist-tags`]?.[this.tag ?? `latest`] ?? null,
+      ]);
+
+      return [...heldBackVersions]
+        .filter(
+          (version): version is string =>
+            version !== null &&
+            isTooFresh(metadata, version) &&
+            (currentVersion === null || semver.gt(version, currentVersion)),
+        )
+        .map((version) => ({
+          version,
+          age: getReleaseAge(metadata, version)!,
+        }));
+    };
+
+    const fetcher = configuration.makeFetcher();
+
+    // The tarballs are stored in the cache, same as during an install
+    const fetchChangelog = async (
+      descriptor: Descriptor,
+      version: string,
+    ): Promise<string | null> => {
+      const fetchResult = await fetcher.fetch(
+        structUtils.makeLocator(descriptor, `npm:${version}`),
+        {
+          project,
+          fetcher,
+          cache,
+          checksums: project.storedChecksums,
+          report: new ThrowReport(),
+          cacheOptions: { skipIntegrityCheck: true },
+        },
+      );
+
+      try {
+        const filename = (
+          await fetchResult.packageFs.readdirPromise(fetchResult.prefixPath)
+        ).find((entry) => CHANGELOG_FILENAME.test(entry));
+        if (typeof filename === `undefined`) return null;
+
+        return await fetchResult.packageFs.readFilePromise(
+          ppath.join(fetchResult.prefixPath, filename),
+          `utf8`,
+        );
+      } finally {
+        fetchResult.releaseFs?.();
+      }
+    };
+
+    const releaseNotes = new Map<string, Promise<ReleaseNotes | null>>();
+
+    // Lists the versions published since the locked one, null meaning that the dependency doesn't come from the npm registry
+    const fetchReleaseNotes = (
+      descriptor: Descriptor,
+      to: string,
+    ): Promise<ReleaseNotes | null> => {
+      return miscUtils.getFactoryWithDefault(
+        releaseNotes,
+        `${descriptor.descriptorHash}/${to}`,
+        async () => {
+          const metadata = await fetchPackageMetadata(descriptor);
+          if (metadata === null) return null;
+
+          const from =
+            getLockedPackage(descriptor)?.version ??
+            getRangeVersion(descriptor.range);
+
+          // Prereleases are only listed when one of them is previewed
+          const versions = Object.keys(metadata.versions).filter(
+            (version) =>
+              semver.valid(version) !== null &&
+              semver.lte(version, to) &&
+              (from === null || semver.gt(version, from)) &&
+              (semver.prerelease(version) === null || version === to),
+          );
+
+          const changelog = await fetchChangelog(descriptor, to).catch(
+            () => null,
+          );
+
+          return {
+            from,
+            to,
+            versions: semver.rsort(versions).map((version) => ({
+              version,
+              publishedAt: getReleaseDate(metadata, version),
+            })),
+            changelog:
+              changelog !== null
+                ? extractReleaseNotes(changelog, from, to)
+                : null,
+          };
+        },
+      );
+    };
+
+    const fetchVersionWarnings = async (
+      descriptor: Descriptor,
+      range: string,
+    ): Promise<Array<VersionWarning>> => {
+      // The warnings of wrapped ranges are those of the descriptors they wrap
+      const inner = unwrapDescriptor(descriptor);
+      if (inner !== null) {
+        const upgradedInner = unwrapDescriptor(
+          structUtils.makeDescriptor(descriptor, range),
+        );
+        if (upgradedInner === null) return [];
+
+        const warnings = await fetchVersionWarnings(inner, upgradedInner.range);
+
+        if (
+          structUtils.parseRange(descriptor.range).protocol === `patch:` &&
+          upgradedInner.range !== inner.range
+        )
+          warnings.push({
+            type: `patch`,
+            message: `The patch was written for ${structUtils.stringifyDescriptor(
+              inner,
+            )} and may no longer apply to ${structUtils.stringifyDescriptor(
+              upgradedInner,
+            )}`,
+          });
+
+        return warnings;
+      }
+
+      const metadata = await fetchPackageMetadata(descriptor);
+      const version = getRangeVersion(range);
+      if (metadata === null || version === null) return [];
+
+      const manifest = metadata.versions[version];
+      if (typeof manifest === `undefined`) return [];
+
+      const warnings: Array<VersionWarning> = [];
+
+      if (manifest.deprecated)
+        warnings.push({
+          type: `deprecated`,
+          message: `${version} is deprecated: ${manifest.deprecated}`,
+        });
+
+      // The license is compared with the one of the version currently installed
+      const currentVersion =
+        getDependencyVersion(descriptor).resolvedVersion ??
+        getRangeVersion(descriptor.range);
+      const currentLicense =
+        currentVersion !== null
+          ? getLicense(metadata.versions[currentVersion])
+          : null;
+      const license = getLicense(manifest);
+
+      if (currentLicense !== null && license !== currentLicense)
+        warnings.push({
+          type: `license`,
+          message: `${version} changes the license from ${currentLicense} to ${
+            license ?? `none`
+          }`,
+        });
+
+      const nodeRange = manifest.engines?.node;
+      if (
+        nodeRange &&
+        semver.validRange(nodeRange) &&
+        !semver.satisfies(process.versions.node, nodeRange)
+      )
+        warnings.push({
+          type: `engines`,
+          message: `${version} requires Node ${nodeRange}, but ${process.versions.node} is running`,
+        });
+
+      return warnings;
+    };
+
+    // Checks the peer dependencies of every package of the workspaces affected by the upgrades, as they will be once applied
+    const findPeerConflicts = async (
+      updateRequests: Map<string, string | null>,
+    ): Promise<Array<PeerConflict>> => {
+      const plannedRanges = new Map<Workspace, Map<IdentHash, string>>();
+
+      for (const target of collectTargets()) {
+        const newRange = updateRequests.get(getUpdateRequestKey(target));
+        if (typeof newRange === `undefined` || newRange === null) continue;
+
+        miscUtils
+          .getMapWithDefault(plannedRanges, target.workspace)
+          .set(target.descriptor.identHash, newRange);
+      }
+
+      const candidates = collectCandidates().candidates;
+      const findCandidate = (workspace: Workspace, ident: Ident) =>
+        candidates.find(
+          (candidate) =>
+            candidate.workspace === workspace &&
+            candidate.descriptor.identHash === ident.identHash,
+        ) ?? null;
+
+      const conflicts: Array<PeerConflict> = [];
+
+      for (const [workspace, upgradedRanges] of plannedRanges) {
+        const dependencies = new Map<IdentHash, Descriptor>([
+          ...workspace.manifest.devDependencies,
+          ...workspace.manifest.dependencies,
+        ]);
+
+        const getPlannedVersion = (descriptor: Descriptor) => {
+          const newRange = upgradedRanges.get(descriptor.identHash);
+          return typeof newRange !== `undefined`
+            ? getRangeVersion(newRange)
+            : getLockedPackage(descriptor)?.version ??
+                getRangeVersion(descriptor.range);
+        };
+
+        // The registry tells the peer dependencies of the new versions, the lockfile those of the current ones
+        const getPeerRanges = async (
+          descriptor: Descriptor,
+          version: string,
+        ): Promise<Map<IdentHash, string>> => {
+          const peerRanges = new Map<IdentHash, string>();
+
+          if (upgradedRanges.has(descriptor.identHash)) {
+            const metadata = await fetchPackageMetadata(descriptor);
+            for (const [name, range] of Object.entries(
+              metadata?.versions[version]?.peerDependencies ?? {},
+            )) {
+              peerRanges.set(structUtils.parseIdent(name).identHash, range);
+            }
+          } else {
+            for (const peerDescriptor of getLockedPackage(
+              descriptor,
+            )?.peerDependencies.values() ?? []) {
+              peerRanges.set(peerDescriptor.identHash, peerDescriptor.range);
+            }
+          }
+
+          return peerRanges;
+        };
+
+        for (const descriptor of dependencies.values()) {
+          const version = getPlannedVersion(descriptor);
+          if (version === null) continue;
+
+          const peerRanges = await getPeerRanges(descriptor, version).catch(
+            () => new Map<IdentHash, string>(),
+          );
+
+          for (const [peerIdentHash, peerRange] of peerRanges) {
+            const peerDescriptor = dependencies.get(peerIdentHash);
+            if (typeof peerDescriptor === `undefined`) continue;
+
+            // Conflicts that were already there before the upgrades aren't ours to report
+            if (
+              !upgradedRanges.has(descriptor.identHash) &&
+              !upgradedRanges.has(peerIdentHash)
+            )
+              continue;
+
+            const peerVersion = getPlannedVersion(peerDescriptor);
+            if (
+              peerVersion === null ||
+              !semver.validRange(peerRange) ||
+              semver.satisfies(peerVersion, peerRange)
+            )
+              continue;
+
+            conflicts.push({
+              workspace,
+              dependent: structUtils.stringifyIdent(descriptor),
+              dependentVersion: version,
+              peer: structUtils.stringifyIdent(peerDescriptor),
+              peerRange,
+              peerVersion,
+              companion: await findCompanionUpgrade(
+                workspace,
+                upgradedRanges.has(descriptor.identHash)
+                  ? { subject: peerDescriptor, peerRange }
+                  : {
+                      subject: descriptor,
+                      peer: peerDescriptor,
+                      peerVersion,
+                    },
+                findCandidate,
+              ).catch(() => null),
+            });
+          }
+        }
+      }
+
+      return conflicts;
+    };
+
+    // Either upgrades the peer into the required range, or the dependent to a version accepting the planned peer
+    const findCompanionUpgrade = async (
+      workspace: Workspace,
+      request:
+        | { subject: Descriptor; peerRange: string }
+        | { subject: Descriptor; peer: Descriptor; peerVersion: string },
+      findCandidate: (
+        workspace: Workspace,
+        ident: Ident,
+      ) => UpgradeCandidate | null,
+    ): Promise<PeerConflict[`companion`]> => {
+      const candidate = findCandidate(workspace, request.subject);
+      if (candidate === null) return null;
+
+      const metadata = await fetchPackageMetadata(candidate.descriptor);
+      if (metadata === null) return null;
+
+      const currentVersion = getRangeVersion(candidate.descriptor.range);
+      const versions = Object.keys(metadata.versions).filter(
+        (version) =>
+          currentVersion === null || semver.gt(version, currentVersion),
+      );
+
+      let version: string | null;
+      if (`peerRange` in request) {
+        version = semver.maxSatisfying(versions, request.peerRange);
+      } else {
+        const peerName = structUtils.stringifyIdent(request.peer);
+        version =
+          semver.rsort(versions).find((version) => {
+            const peerRange =
+              metadata.versions[version].peerDependencies?.[peerName];
+            return (
+              !semver.prerelease(version) &&
+              typeof peerRange !== `undefined` &&
+              semver.validRange(peerRange) !== null &&
+              semver.satisfies(request.peerVersion, peerRange)
+            );
+          }) ?? null;
+      }
+
+      if (version === null) return null;
+
+      const range = await fetchUpdatedDescriptor(
+        candidate.descriptor,
+        candidate.descriptor.range,
+        version,
+      );
+      if (range === candidate.descriptor.range) return null;
+
+      return {
+        key: getUpdateRequestKey(candidate),
+        descriptor: candidate.descriptor,
+        range,
+      };
+    };
+
+    const stringifyPeerConflict = (conflict: PeerConflict) => {
+      const companion =
+        conflict.companion !== null
+          ? ` (upgrade ${structUtils.stringifyIdent(
+              conflict.companion.descriptor,
+            )} to ${conflict.companion.range} to fix it)`
+          : ``;
+
+      return `${conflict.dependent}@${conflict.dependentVersion} requires ${conflict.peer}@${conflict.peerRange}, but ${conflict.peer} would be at ${conflict.peerVersion}${companion}`;
+    };
+
+    const reportPeerConflicts = (
+      report: Report,
+      conflicts: Array<PeerConflict>,
+    ) => {
+      for (const conflict of conflicts) {
+        report.reportWarning(
+          MessageName.UNNAMED,
+          `${structUtils.prettyIdent(
+            configuration,
+            conflict.workspace.anchoredLocator,
+          )}: ${stringifyPeerConflict(conflict)}`,
+        );
+      }
+    };
+
+    const makeSuggestion = async (
+      descriptor: Descriptor,
+      range: string,
+    ): Promise<UpgradeSuggestion> => {
+      const warnings = await fetchVersionWarnings(descriptor, range).catch(
+        () => [],
+      );
+      const badges = warnings
+        .map(({ type }) => VERSION_WARNING_BADGES[type])
+        .join(``);
+
+      const label = colorizeVersionDiff(
+        ...getInnermostRanges(descriptor, range),
+      );
+
+      return {
+        value: range,
+        label: badges
+          ? `${label} ${formatUtils.pretty(configuration, badges, `yellow`)}`
+          : label,
+        warnings,
+      };
+    };
+
+    const fetchSemverSuggestions = async (
+      descriptor: Descriptor,
+    ): Promise<UpgradeSuggestions> => {
+      const referenceRange = semver.valid(descriptor.range)
+        ? `^${descriptor.range}`
+        : descriptor.range;
+
+      const [resolution, latest] = await Promise.all([
+        fetchUpdatedDescriptor(
+          descriptor,
+          descriptor.range,
+          referenceRange,
+        ).catch(() => null),
+        fetchUpdatedDescriptor(
+          descriptor,
+          descriptor.range,
+          this.tag ?? `latest`,
+        ).catch(() => null),
+      ]);
+
+      const suggestions: UpgradeSuggestions = [
+        {
+          value: null,
+          label: descriptor.range,
+          warnings: [],
+        },
+      ];
+
+      if (resolution && resolution !== descriptor.range) {
+        suggestions.push(await makeSuggestion(descriptor, resolution));
+      } else {
+        suggestions.push({ value: null, label: ``, warnings: [] });
+      }
+
+      if (latest && latest !== resolution && latest !== descriptor.range) {
+        suggestions.push(await makeSuggestion(descriptor, latest));
+      } else {
+        suggestions.push({ value: null, label: ``, warnings: [] });
+      }
+
+      return suggestions;
+    };
+
+    const fetchWrappedSuggestions = async (
+      descriptor: Descriptor,
+    ): Promise<UpgradeSuggestions> => {
+      const [current, ...upgrades] = await fetchCachedSuggestions(
+        unwrapDescriptor(descriptor)!,
+      );
+
+      return [
+        current,
+        ...(await Promise.all(
+          upgrades.map((suggestion) =>
+            suggestion.value !== null
+              ? makeSuggestion(
+                  descriptor,
+                  rewrapRange(descriptor, suggestion.value),
+                )
+              : suggestion,
+          ),
+        )),
+      ];
+    };
+
+    // Offers the newest tag of the same major in the Range column, and the newest tag in the Latest one
+    const fetchTagSuggestions = async (
+      repo: string,
+      current: { request: string; version: string | null },
+      makeRequest: (tag: string, version: string) => string,
+      makeRange: (request: string) => string,
+    ): Promise<UpgradeSuggestions> => {
+      // A commit or a branch can't be compared to the tags, and replacing it by one would change what the dependency follows
+      if (current.version === null)
+        return [
+          { value: null, label: current.request, warnings: [] },
+          { value: null, label: ``, warnings: [] },
+          { value: null, label: ``, warnings: [] },
+        ];
+
+      const tags = new Map<string, string>();
+      for (const ref of (await gitUtils.lsRemote(repo, configuration)).keys()) {
+        const tag = ref.match(/^refs\/tags\/(.+)$/)?.[1];
+        if (typeof tag === `undefined` || tag.endsWith(`^{}`)) continue;
+
+        const version = parseTagVersion(tag);
+        if (version !== null) tags.set(version, tag);
+      }
+
+      const { version: currentVersion } = current;
+      const versions = semver.rsort(
+        [...tags.keys()].filter(
+          (version) =>
+            semver.gt(version, currentVersion) &&
+            (semver.prerelease(version) === null ||
+              semver.prerelease(currentVersion) !== null),
+        ),
+      );
+
+      const rangeVersion =
+        versions.find(
+          (version) => semver.major(version) === semver.major(currentVersion),
+        ) ?? null;
+      const latestVersion = versions[0] ?? null;
+
+      const makeTagSuggestion = (version: string): UpgradeSuggestion => {
+        const request = makeRequest(tags.get(version)!, version);
+        return {
+          value: makeRange(request),
+          label: colorizeVersionDiff(current.request, request),
+          warnings: [],
+        };
+      };
+
+      return [
+        { value: null, label: current.request, warnings: [] },
+        rangeVersion !== null
+          ? makeTagSuggestion(rangeVersion)
+          : { value: null, label: ``, warnings: [] },
+        latestVersion !== null && latestVersion !== rangeVersion
+          ? makeTagSuggestion(latestVersion)
+          : { value: null, label: ``, warnings: [] },
+      ];
+    };
+
+    // The tags are listed by git, so that the repositories mirrored through its configuration work too
+    const fetchGitSuggestions = (
+      descriptor: Descriptor,
+    ): Promise<UpgradeSuggestions> => {
+      const { repo, treeish } = gitUtils.splitRepoUrl(descriptor.range);
+      const hashIndex = descriptor.range.indexOf(`#`);
+
+      const isSemverTreeish = treeish.protocol === `semver`;
+      const modifier = isSemverTreeish
+        ? treeish.request.match(SIMPLE_SEMVER)?.[1] ?? ``
+        : ``;
+
+      return fetchTagSuggestions(
+        repo,
+        {
+          request: treeish.request,
+          version: isSemverTreeish
+            ? semver.validRange(treeish.request)
+              ? semver.minVersion(treeish.request)?.version ?? null
+              : null
+            : parseTagVersion(treeish.request),
+        },
+        (tag, version) => (isSemverTreeish ? `${modifier}${version}` : tag),
+        (request) =>
+          hashIndex === -1
+            ? `${descriptor.range}#${request}`
+            : `${descriptor.range.slice(0, hashIndex)}#${descriptor.range
+                .slice(hashIndex + 1)
+                .replace(treeish.request, request)}`,
+      );
+    };
+
+    const fetchGithubArchiveSuggestions = (
+      descriptor: Descriptor,
+    ): Promise<UpgradeSuggestions> => {
+      const [, owner, name, tag] = descriptor.range.match(GITHUB_ARCHIVE_URL)!;
+
+      return fetchTagSuggestions(
+        `https://github.com/${owner}/${name}.git`,
+        { request: tag, version: parseTagVersion(tag) },
+        (tag) => tag,
+        (request) => descriptor.range.replace(`/${tag}.`, `/${request}.`),
+      );
+    };
+
+    // The tarballs of the npm registry are offered the versions of their package, same as the semver ranges
+    const fetchRegistryTarballSuggestions = async (
+      descriptor: Descriptor,
+    ): Promise<UpgradeSuggestions> => {
+      const [, name, currentVersion] =
+        descriptor.range.match(REGISTRY_TARBALL_URL)!;
+      const metadata = await fetchIdentMetadata(structUtils.parseIdent(name));
+
+      const versions =
+        metadata !== null
+          ? Object.keys(metadata.versions).filter(
+              (version) =>
+                semver.valid(version) !== null &&
+                semver.gt(version, currentVersion) &&
+                !isTooFresh(metadata, version),
+            )
+          : [];
+
+      const taggedVersion = metadata?.[`dist-tags`]?.[this.tag ?? `latest`];
+      const rangeVersion = semver.maxSatisfying(versions, `^${currentVersion}`);
+      const latestVersion = taggedVersion
+        ? semver.maxSatisfying(versions, `<=${taggedVersion}`)
+        : null;
+
+      const makeTarballSuggestion = (version: string): UpgradeSuggestion => ({
+        value: `${descriptor.range.slice(
+          0,
+          -`${currentVersion}.tgz`.length,
+        )}${version}.tgz`,
+        label: colorizeVersionDiff(currentVersion, version),
+        warnings: [],
+      });
+
+      return [
+        { value: null, label: currentVersion, warnings: [] },
+        rangeVersion !== null
+          ? makeTarballSuggestion(rangeVersion)
+          : { value: null, label: ``, warnings: [] },
+        latestVersion !== null && latestVersion !== rangeVersion
+          ? makeTarballSuggestion(latestVersion)
+          : { value: null, label: ``, warnings: [] },
+      ];
+    };
+
+    const suggestionProviders: Array<SuggestionProvider> = [
+      {
+        supports: (descriptor) => unwrapDescriptor(descriptor) !== null,
+        fetchSuggestions: fetchWrappedSuggestions,
+      },
+      {
+        supports: (descriptor) => gitUtils.isGitUrl(descriptor.range),
+        fetchSuggestions: fetchGitSuggestions,
+      },
+      {
+        supports: (descriptor) => GITHUB_ARCHIVE_URL.test(descriptor.range),
+        fetchSuggestions: fetchGithubArchiveSuggestions,
+      },
+      {
+        supports: (descriptor) => REGISTRY_TARBALL_URL.test(descriptor.range),
+        fetchSuggestions: fetchRegistryTarballSuggestions,
+      },
+    ];
+
+    // A provider failing (such as a repository that can't be reached) only leaves its dependency without suggestions
+    const fetchSuggestions = (
+      descriptor: Descriptor,
+    ): Promise<UpgradeSuggestions> => {
+      const provider = suggestionProviders.find(({ supports }) =>
+        supports(descriptor),
+      );
+      if (typeof provider === `undefined`)
+        return fetchSemverSuggestions(descriptor);
+
+      return provider.fetchSuggestions(descriptor).catch(() => [
+        { value: null, label: descriptor.range, warnings: [] },
+        { value: null, label: ``, warnings: [] },
+        { value: null, label: ``, warnings: [] },
+      ]);
+    };
+
+    // The same descriptor is often shared by many workspaces, no need to query the registry more than once
+    const suggestionsByDescriptor = new Map<
+      DescriptorHash,
+      Promise<UpgradeSuggestions>
+    >();
+
+    const fetchCachedSuggestions = (descriptor: Descriptor) => {
+      return miscUtils.getFactoryWithDefault(
+        suggestionsByDescriptor,
+        descriptor.descriptorHash,
+        () => fetchSuggestions(descriptor),
+      );
+    };
+
+    const packageGroups: Array<PackageGroup> = [
+      ...filterConfiguration.groups,
+      ...(this.groupArg ?? ``)
+        .split(`,`)
+        .map((glob) => glob.trim())
+        .filter((glob) => glob.length > 0)
+        .map((glob) => ({ name: glob, packages: [glob], repository: null })),
+    ];
+
+    const findPackageGroup = async (
+      descriptor: Descriptor,
+    ): Promise<PackageGroup | null> => {
+      const packageName = structUtils.stringifyIdent(descriptor);
+
+      for (const group of packageGroups) {
+        if (group.packages.some((glob) => matchesGlob(packageName, glob)))
+          return group;
+
+        if (group.repository !== null) {
+          const repository = (await fetchPackageMetadata(descriptor))
+            ?.repository;
+          const url =
+            typeof repository === `string` ? repository : repository?.url;
+
+          if (
+            url &&
+            normalizeRepositoryUrl(url) ===
+              normalizeRepositoryUrl(group.repository)
+          ) {
+            return group;
+          }
+        }
+      }
+
+      return null;
+    };
+
+    // Each group takes the place of its first member in the list
+    const collectUpgradeItems = async (
+      rows: Array<UpgradeRow>,
+    ): Promise<Array<UpgradeItem>> => {
+      const items: Array<UpgradeItem> = [];
+      const groupsByKey = new Map<string, UpgradeGroup>();
+
+      // The repository groups need the metadata of every row, which would otherwise delay the upgrade window by one request per row
+      const packageGroups = await mapWithConcurrency(
+        rows,
+        configuration.get(`networkConcurrency`),
+        (row) => findPackageGroup(row.descriptor),
+      );
+
+      for (const [index, row] of rows.entries()) {
+        const packageGroup = packageGroups[index];
+        if (packageGroup === null) {
+          items.push(row);
+          continue;
+        }
+
+        const key = `group/${
+          row.workspace?.anchoredLocator.locatorHash ?? ``
+        }/${packageGroup.name}`;
+
+        const group = miscUtils.getFactoryWithDefault(groupsByKey, key, () => {
+          const group: UpgradeGroup = {
+            key,
+            name: packageGroup.name,
+            workspace: row.workspace,
+            members: [],
+          };
+
+          items.push(group);
+          return group;
+        });
+
+        group.members.push(row);
+      }
+
+      return items;
+    };
+
+    const getMissingGroupMembers = async (
+      group: UpgradeGroup,
+      version: string,
+    ): Promise<Array<UpgradeRow>> => {
+      const missingMembers: Array<UpgradeRow> = [];
+
+      for (const member of group.members) {
+        const metadata = await fetchPackageMetadata(member.descriptor);
+        if (typeof metadata?.versions[version] === `undefined`)
+          missingMembers.push(member);
+      }
+
+      return missingMembers;
+    };
+
+    // Families are offered the newest versions of their members Range and Latest columns
+    const makeGroupSuggestion = async (
+      group: UpgradeGroup,
+      version: string,
+    ): Promise<UpgradeSuggestion> => {
+      const leadRange = group.members[0].descriptor.range;
+      const leadVersion = getRangeVersion(leadRange) ?? leadRange;
+
+      const warnings: Array<VersionWarning> = (
+        await getMissingGroupMembers(group, version)
+      ).map(({ descriptor }) => ({
+        type: `missing`,
+        message: `${structUtils.stringifyIdent(
+          descriptor,
+        )} doesn't publish ${version}, it will be left at ${descriptor.range}`,
+      }));
+
+      const label = colorizeVersionDiff(leadVersion, version);
+
+      return {
+        value: version,
+        label:
+          warnings.length > 0
+            ? `${label} ${formatUtils.pretty(
+                configuration,
+                VERSION_WARNING_BADGES.missing,
+                `yellow`,
+              )}`
+            : label,
+        warnings,
+      };
+    };
+
+    const fetchGroupSuggestions = async (
+      group: UpgradeGroup,
+    ): Promise<UpgradeSuggestions> => {
+      const memberSuggestions = await Promise.all(
+        group.members.map(({ descriptor }) =>
+          fetchCachedSuggestions(descriptor),
+        ),
+      );
+
+      const getNewestVersion = (
+        getRange: (suggestions: UpgradeSuggestions) => string | null,
+      ) => {
+        const versions = memberSuggestions
+          .map(getRange)
+          .map((range) => (range !== null ? getRangeVersion(range) : null))
+          .filter((version): version is string => version !== null);
+
+        return versions.length > 0 ? semver.rsort(versions)[0] : null;
+      };
+
+      const rangeVersion = getNewestVersion(
+        ([, resolution]) => resolution.value,
+      );
+      const latestVersion = getNewestVersion(
+        ([, resolution, latest]) => latest.value ?? resolution.value,
+      );
+
+      const currentRanges = new Set(
+        group.members.map(({ descriptor }) => descriptor.range),
+      );
+      const leadRange = group.members[0].descriptor.range;
+
+      const suggestions: UpgradeSuggestions = [
+        {
+          value: null,
+          label:
+            currentRanges.size === 1
+              ? leadRange
+              : `${currentRanges.size} ranges`,
+          warnings: [],
+        },
+      ];
+
+      for (const version of [
+        rangeVersion,
+        latestVersion !== rangeVersion ? latestVersion : null,
+      ]) {
+        suggestions.push(
+          version !== null
+            ? await makeGroupSuggestion(group, version)
+            : { value: null, label: ``, warnings: [] },
+        );
+      }
+
+      return suggestions;
+    };
+
+    // Lists the dist-tags first, then the versions of each major from the newest, null meaning that the dependency doesn't come from the npm registry
+    const fetchPickableVersions = async (
+      descriptor: Descriptor,
+    ): Promise<Array<VersionSection> | null> => {
+      const metadata = await fetchPackageMetadata(descriptor);
+      if (metadata === null) return null;
+
+      const sections: Array<VersionSection> = [];
+
+      const distTags = Object.entries(metadata[`dist-tags`] ?? {}).filter(
+        ([, version]) => typeof metadata.versions[version] !== `undefined`,
+      );
+      if (distTags.length > 0)
+        sections.push({
+          label: `Dist-tags`,
+          versions: distTags.map(([tag, version]) => ({
+            version,
+            tag,
+            publishedAt: getReleaseDate(metadata, version),
+          })),
+        });
+
+      const versions = semver.rsort(
+        Object.keys(metadata.versions).filter(
+          (version) => semver.valid(version) !== null,
+        ),
+      );
+      for (const version of versions) {
+        const label = `${semver.major(version)}.x`;
+        if (sections[sections.length - 1]?.label !== label)
+          sections.push({ label, versions: [] });
+
+        sections[sections.length - 1].versions.push({
+          version,
+          tag: null,
+          publishedAt: getReleaseDate(metadata, version),
+        });
+      }
+
+      return sections;
+    };
+
+    // Picked versions aren't held back by --min-age, but are refused by --refuse-warnings same as the other columns
+    const makePickedSuggestion = async (
+      row: UpgradeItem,
+      version: string,
+    ): Promise<UpgradeSuggestion> => {
+      let suggestion: UpgradeSuggestion;
+      if (isUpgradeGroup(row)) {
+        suggestion = await makeGroupSuggestion(row, version);
+      } else {
+        const candidate = await suggestUtils.fetchDescriptorFrom(
+          row.descriptor,
+          version,
+          { project, cache, preserveModifier: row.descriptor.range, workspace },
+        );
+
+        suggestion = await makeSuggestion(
+          row.descriptor,
+          candidate?.range ?? version,
+        );
+      }
+
+      return this.refuseWarnings && suggestion.warnings.length > 0
+        ? { ...suggestion, label: `` }
+        : suggestion;
+    };
+
+    const sortedWorkspaces = miscUtils.sortMap(
+      project.workspaces,
+      (workspace) => structUtils.stringifyIdent(workspace.anchoredLocator),
+    );
+
+    // The rows are listed by section, each section being given by the sort order
+    const getSortSection = (
+      order: SortOrder,
+      item: UpgradeItem,
+      suggestions: UpgradeSuggestions,
+    ): SortSection | null => {
+      const members = isUpgradeGroup(item) ? item.members : [item];
+
+      switch (order) {
+        case `name`:
+          return null;
+
+        case `bump`: {
+          const currentRange = isUpgradeGroup(item)
+            ? getRangeVersion(item.members[0].descriptor.range) ??
+              item.members[0].descriptor.range
+            : item.descriptor.range;
+
+          const rank = Math.min(
+            ...suggestions.map(({ value }) => {
+              const bump =
+                value !== null ? getSemverBump(currentRange, value) : null;
+              return bump !== null
+                ? BUMP_SORT_ORDER.indexOf(bump)
+                : BUMP_SORT_ORDER.length;
+            }),
+          );
+
+          if (rank === BUMP_SORT_ORDER.length)
+            return { rank, label: `Other upgrades` };
+
+          const bump = BUMP_SORT_ORDER[rank];
+          return {
+            rank,
+            label: `${bump[0].toUpperCase()}${bump.slice(1)} bumps`,
+          };
+        }
+
+        case `type`: {
+          const rank = Math.min(
+            ...members.flatMap(({ dependencyTypes }) =>
+              dependencyTypes.map((dependencyType) =>
+                DEPENDENCY_TYPES.indexOf(dependencyType),
+              ),
+            ),
+          );
+
+          return { rank, label: DEPENDENCY_TYPES[rank] };
+        }
+
+        case `workspace`: {
+          // The rows listed per workspace are already in the section of their workspace
+          if (item.workspace !== null) return null;
+
+          const workspaces = new Set(
+            members.flatMap(({ workspaces }) => workspaces),
+          );
+
+          // The ranges shared by several workspaces are listed after those of a single workspace
+          if (workspaces.size !== 1)
+            return {
+              rank: sortedWorkspaces.length,
+              label: `Shared by several workspaces`,
+            };
+
+          const [workspace] = workspaces;
+          return {
+            rank: sortedWorkspaces.indexOf(workspace),
+            label: structUtils.stringifyIdent(workspace.anchoredLocator),
+          };
+        }
+
+        case `usage`: {
+          const count = new Set(members.flatMap(({ workspaces }) => workspaces))
+            .size;
+
+          return {
+            rank: -count,
+            label: `Used by ${count} ${
+              count === 1 ? `workspace` : `workspaces`
+            }`,
+          };
+        }
+      }
+    };
+
+    // Replaces the version picked for each group by the ranges of its members
+    const expandGroupSelections = async (
+      groups: Array<UpgradeGroup>,
+      updateRequests: Map<string, string | null>,
+    ): Promise<Map<string, string | null>> => {
+      const requests = new Map(updateRequests);
+      const warnings: Array<string> = [];
+
+      for (const group of groups) {
+        const version = requests.get(group.key);
+        requests.delete(group.key);
+
+        if (typeof version === `undefined` || version === null) continue;
+
+        const missingMembers = await getMissingGroupMembers(group, version);
+
+        for (const member of group.members) {
+          const { descriptor } = member;
+
+          if (missingMembers.includes(member)) {
+            warnings.push(
+              `${structUtils.prettyDescriptor(
+                configuration,
+                descriptor,
+              )} doesn't publish ${version} and is left as is`,
+            );
+            continue;
+          }
+
+          // Members already beyond the version of the family are never downgraded
+          const currentVersion = getRangeVersion(descriptor.range);
+          if (currentVersion !== null && semver.gte(currentVersion, version))
+            continue;
+
+          requests.set(
+            member.key,
+            await fetchUpdatedDescriptor(descriptor, descriptor.range, version),
+          );
+        }
+      }
+
+      if (warnings.length > 0) {
+        await StreamReport.start(
+          {
+            configuration,
+            stdout: this.context.stdout,
+            includeFooter: false,
+          },
+          async (report) => {
+            for (const warning of warnings) {
+              report.reportWarning(MessageName.UNNAMED, warning);
+            }
+          },
+        );
+      }
+
+      return requests;
+    };
+
+    const fetchOfferedRanges = async (
+      item: UpgradeItem,
+    ): Promise<Array<string>> => {
+      const [, ...suggestions] = isUpgradeGroup(item)
+        ? await fetchGroupSuggestions(item)
+        : await fetchCachedSuggestions(item.descriptor);
+
+      return suggestions
+        .map(({ value }) => value)
+        .filter((value): value is string => value !== null);
+    };
+
+    // A selection is stale once its row doesn't offer the same versions as when the session was saved
+    const isStaleSelection = async (
+      selection: SessionSelection,
+      item: UpgradeItem,
+    ): Promise<boolean> => {
+      const offeredRanges = await fetchOfferedRanges(item);
+
+      return (
+        offeredRanges.length !== selection.suggestions.length ||
+        offeredRanges.some(
+          (range, index) => range !== selection.suggestions[index],
+        )
+      );
+    };
+
+    const fetchCappedRange = async (
+      descriptor: Descriptor,
+      ceiling: BumpCeiling,
+    ): Promise<string | null> => {
+      const ceilingRange = getBumpCeilingRange(descriptor.range, ceiling);
+      if (ceilingRange === null) return null;
+
+      const candidate = await fetchUpdatedDescriptor(
+        descriptor,
+        descriptor.range,
+        ceilingRange,
+      ).catch(() => null);
+      if (candidate === null) return null;
+
+      // Yarn pins the version when the modifier would allow versions beyond the ceiling, otherwise we keep the current style
+      const { protocol, source, params, selector } =
+        structUtils.parseRange(candidate);
+      const modifiedSelector = `${suggestUtils.extractRangeModifier(
+        descriptor.range,
+        {
+          project,
+        },
+      )}${selector}`;
+      const isWithinCeiling =
+        semver.valid(selector) !== null &&
+        semver.subset(modifiedSelector, ceilingRange);
+
+      // Unless the modifier would allow the versions held back by --min-age
+      const metadata =
+        minAge !== null ? await fetchPackageMetadata(descriptor) : null;
+      const admitsTooFreshVersions =
+        metadata !== null &&
+        Object.keys(metadata.versions).some(
+          (version) =>
+            semver.satisfies(version, modifiedSelector) &&
+            isTooFresh(metadata, version),
+        );
+
+      const range =
+        isWithinCeiling && !admitsTooFreshVersions
+          ? structUtils.makeRange({
+              protocol,
+              source,
+              params,
+              selector: modifiedSelector,
+            })
+          : candidate;
+
+      return range !== descriptor.range ? range : null;
+    };
+
+    const cappedRanges = new Map<string, Promise<string | null>>();
+
+    const fetchCachedCappedRange = (
+      descriptor: Descriptor,
+      ceiling: BumpCeiling,
+    ) => {
+      return miscUtils.getFactoryWithDefault(
+        cappedRanges,
+        `${descriptor.descriptorHash}/${ceiling}`,
+        () => fetchCappedRange(descriptor, ceiling),
+      );
+    };
+
+    const fetchPolicyRange = async (
+      descriptor: Descriptor,
+      policy: UpgradePolicy,
+      ceiling: BumpCeiling | null,
+    ): Promise<string | null> => {
+      let range: string | null;
+      if (policy === `range` || policy === `latest`) {
+        const [, resolution, latest] = await fetchCachedSuggestions(descriptor);
+        range =
+          policy === `range`
+            ? resolution.value
+            : latest.value ?? resolution.value;
+      } else {
+        range = await fetchCachedCappedRange(descriptor, policy);
+      }
+
+      if (
+        ceiling === null ||
+        range === null ||
+        !exceedsBumpCeiling(descriptor.range, range, ceiling)
+      )
+        return range;
+
+      return await fetchCachedCappedRange(descriptor, ceiling);
+    };
+
+    // The session replaces --policy, only its selections whose rows still offer the same versions are applied
+    if (this.nonInteractive && session !== null) {
+      const items = await collectUpgradeItems(collectRows());
+      const itemsByKey = new Map(items.map((item) => [item.key, item]));
+      const sessionRequests = new Map<string, string | null>();
+
+      const sessionReport = await StreamReport.start(
+        {
+          configuration,
+          stdout: this.context.stdout,
+          includeFooter: false,
+        },
+        async (report) => {
+          for (const selection of session.selections) {
+            const item = itemsByKey.get(selection.key);
+            const label = `${selection.name}@${
+              selection.current
+            } → ${colorizeVersionDiff(selection.current, selection.range)}`;
+
+            if (typeof item === `undefined`) {
+              report.reportWarning(
+                MessageName.UNNAMED,
+                `${label} was skipped, as the dependency isn't listed anymore`,
+              );
+            } else if (await isStaleSelection(selection, item)) {
+              report.reportWarning(
+                MessageName.UNNAMED,
+                `${label} was skipped, as the versions offered changed since the session was saved`,
+              );
+            } else {
+              report.reportInfo(MessageName.UNNAMED, label);
+              sessionRequests.set(selection.key, selection.range);
+            }
+          }
+
+          if (sessionRequests.size === 0)
+            report.reportInfo(MessageName.UNNAMED, `No upgrades found`);
+        },
+      );
+      if (sessionReport.hasErrors()) return sessionReport.exitCode();
+
+      const updateRequests = await expandGroupSelections(
+        items.filter(isUpgradeGroup),
+        sessionRequests,
+      );
+
+      await StreamReport.start(
+        {
+          configuration,
+          stdout: this.context.stdout,
+          includeFooter: false,
+        },
+        async (report) => {
+          reportPeerConflicts(report, await findPeerConflicts(updateRequests));
+        },
+      );
+
+      const exitCode = await commitUpdateRequests(updateRequests);
+      if (exitCode === 0 && !this.dryRun)
+        await removeUpgradeSession(configuration);
+
+      return exitCode;
+    }
+
+    if (this.nonInteractive) {
+      const updateRequests = new Map<string, string | null>();
+
+      const resolutionReport = await StreamReport.start(
+        {
+          configuration,
+          stdout: this.context.stdout,
+          includeFooter: false,
+        },
+        async (report) => {
+          const { candidates } = collectCandidates();
+          const bumpCeilings = collectBumpCeilings(candidates);
+
+          // The same range is usually shared by many workspaces, it only needs to be resolved and reported once
+          const pendingRanges = new Map<
+            string,
+            {
+              descriptor: Descriptor;
+              ceiling: BumpCeiling | null;
+              keys: Array<string>;
+            }
+          >();
+
+          for (const candidate of candidates) {
+            const key = getUpdateRequestKey(candidate);
+            const ceiling = bumpCeilings.get(key) ?? null;
+
+            miscUtils
+              .getFactoryWithDefault(
+                pendingRanges,
+                `${candidate.descriptor.descriptorHash}/${ceiling}`,
+                () => ({ descriptor: candidate.descriptor, ceiling, keys: [] }),
+              )
+              .keys.push(key);
+          }
+
+          const entries = miscUtils.sortMap(pendingRanges.values(), (entry) =>
+            structUtils.stringifyDescriptor(entry.descriptor),
+          );
+          const ranges = await Promise.all(
+            entries.map(({ descriptor, ceiling }) =>
+              fetchPolicyRange(descriptor, policy, ceiling),
+            ),
+          );
+
+          // The members of a group are upgraded in lockstep, to the newest version that every one of them allows
+          const groupNames = new Map<number, string>();
+          const groupedEntries = new Map<string, Array<number>>();
+          const entryGroups = await Promise.all(
+            entries.map(({ descriptor }) => findPackageGroup(descriptor)),
+          );
+
+          for (const [index, group] of entryGroups.entries()) {
+            if (
+              group !== null &&
+              getRangeVersion(entries[index].descriptor.range) !== null
+            ) {
+              miscUtils
+                .getArrayWithDefault(groupedEntries, group.name)
+                .push(index);
+            }
+          }
+
+          for (const [name, indexes] of groupedEntries) {
+            const versions = indexes.map((index) =>
+              getRangeVersion(ranges[index] ?? entries[index].descriptor.range),
+            );
+            if (versions.some((version) => version === null)) continue;
+
+            const [version] = semver.sort(versions as Array<string>);
+            const upgradedIndexes = indexes.filter((index) =>
+              semver.lt(
+                getRangeVersion(entries[index].descriptor.range)!,
+                version,
+              ),
+            );
+
+            const groupRanges = await Promise.all(
+              upgradedIndexes.map((index) => {
+                const { descriptor } = entries[index];
+                return fetchUpdatedDescriptor(
+                  descriptor,
+                  descriptor.range,
+                  version,
+                );
+              }),
+            );
+
+            for (const index of indexes) ranges[index] = null;
+
+            // A member that doesn't publish the version, or only too recently for --min-age, would break the lockstep
+            if (
+              groupRanges.some((range) => getRangeVersion(range) !== version)
+            ) {
+              report.reportWarning(
+                MessageName.UNNAMED,
+                `The ${name} group was skipped, as its members can't all be upgraded to ${version}`,
+              );
+              continue;
+            }
+
+            for (const [position, index] of upgradedIndexes.entries()) {
+              ranges[index] = groupRanges[position];
+              groupNames.set(index, name);
+            }
+          }
+
+          for (const [
+            index,
+            { descriptor, ceiling, keys },
+          ] of entries.entries()) {
+            const range = ranges[index];
+            if (range === null) continue;
+
+            const warnings = await fetchVersionWarnings(
+              descriptor,
+              range,
+            ).catch(() => []);
+            for (const { message } of warnings) {
+              report.reportWarning(
+                MessageName.UNNAMED,
+                `${structUtils.prettyDescriptor(
+                  configuration,
+                  descriptor,
+                )}: ${message}`,
+              );
+            }
+
+            if (this.refuseWarnings && warnings.length > 0) {
+              report.reportWarning(
+                MessageName.UNNAMED,
+                `${structUtils.prettyDescriptor(
+                  configuration,
+                  descriptor,
+                )} → ${range} was refused because of the warnings above`,
+              );
+              continue;
+            }
+
+            report.reportInfo(
+              MessageName.UNNAMED,
+              `${structUtils.prettyDescriptor(
+                configuration,
+                descriptor,
+              )} → ${colorizeVersionDiff(descriptor.range, range)}${
+                ceiling !== null ? ` (capped to ${ceiling} upgrades)` : ``
+              }${
+                groupNames.has(index)
+                  ? ` (upgraded along with the ${groupNames.get(index)} group)`
+                  : ``
+              }`,
+            );
+
+            for (const key of keys) {
+              updateRequests.set(key, range);
+            }
+          }
+
+          if (updateRequests.size === 0)
+            report.reportInfo(MessageName.UNNAMED, `No upgrades found`);
+
+          reportPeerConflicts(report, await findPeerConflicts(updateRequests));
+        },
+      );
+
+      if (resolutionReport.hasErrors()) return resolutionReport.exitCode();
+
+      return await commitUpdateRequests(updateRequests);
+    }
+
+    if (this.json) {
+      const jsonReport = await StreamReport.start(
+        {
+          configuration,
+          stdout: this.context.stdout,
+          json: true,
+          includeFooter: false,
+        },
+        async (report) => {
+          const { candidates, excluded } = collectCandidates();
+          const bumpCeilings = collectBumpCeilings(candidates);
+
+          const entries = await Promise.all(
+            candidates.map(async (candidate) => {
+              const { workspace, dependencyType, descriptor } = candidate;
+              const [, resolution, latest] = await fetchCachedSuggestions(
+                descriptor,
+              );
+              const latestValue = latest.value ?? resolution.value;
+
+              const maxBump =
+                bumpCeilings.get(getUpdateRequestKey(candidate)) ?? null;
+              const capped =
+                maxBump !== null
+                  ? await fetchCachedCappedRange(descriptor, maxBump)
+                  : null;
+              const heldBack = await fetchHeldBackVersions(descriptor);
+              const group = await findPackageGroup(descriptor);
+              const cappedWarnings =
+                capped !== null
+                  ? await fetchVersionWarnings(descriptor, capped).catch(
+                      () => [],
+                    )
+                  : [];
+
+              return {
+                type: `candidate`,
+                workspace: structUtils.stringifyIdent(
+                  workspace.anchoredLocator,
+                ),
+                cwd: workspace.relativeCwd,
+                dependencyType,
+                name: structUtils.stringifyIdent(descriptor),
+                group: group?.name ?? null,
+                current: descriptor.range,
+                range: resolution.value,
+                latest: latestValue,
+                maxBump,
+                capped,
+                heldBack,
+                warnings: {
+                  range: resolution.warnings,
+                  latest: latest.value ? latest.warnings : resolution.warnings,
+                  capped: cappedWarnings,
+                },
+                bump: {
+                  range: resolution.value
+                    ? getSemverBump(descriptor.range, resolution.value)
+                    : null,
+                  latest: latestValue
+                    ? getSemverBump(descriptor.range, latestValue)
+                    : null,
+                  capped: capped
+                    ? getSemverBump(descriptor.range, capped)
+                    : null,
+                },
+              };
+            }),
+          );
+
+          for (const entry of entries) report.reportJson(entry);
+
+          for (const {
+            workspace,
+            dependencyType,
+            descriptor,
+            rule,
+          } of excluded) {
+            report.reportJson({
+              type: `excluded`,
+              workspace: structUtils.stringifyIdent(workspace.anchoredLocator),
+              cwd: workspace.relativeCwd,
+              dependencyType,
+              name: structUtils.stringifyIdent(descriptor),
+              current: descriptor.range,
+              rule: stringifyExcludedItem(rule),
+              reason: rule.reason,
+            });
+          }
+        },
+      );
+
+      return jsonReport.exitCode();
+    }
+
+    const Prompt = () => {
+      return (
+        <Box flexDirection={`row`}>
+          <Box flexDirection={`column`} width={49}>
+            <Box marginLeft={1}>
+              <Text>
                 Press <Text bold color={`cyanBright`}>{`<up>`}</Text>/
                 <Text bold color={`cyanBright`}>{`<down>`}</Text> to select
                 packages.
@@ -466,6 +3945,31 @@ export default class UpgradeInteractiveCommand extends BaseCommand {
                 versions.
               </Text>
             </Box>
+            <Box marginLeft={1}>
+              <Text>
+                Press <Text bold color={`cyanBright`}>{`</>`}</Text> to search
+                packages.
+              </Text>
+            </Box>
+            <Box marginLeft={1}>
+              <Text>
+                Press <Text bold color={`cyanBright`}>{`<r>`}</Text>/
+                <Text bold color={`cyanBright`}>{`<l>`}</Text> to pick
+                Range/Latest for all.
+              </Text>
+            </Box>
+            <Box marginLeft={1}>
+              <Text>
+                Press <Text bold color={`cyanBright`}>{`<s>`}</Text> to change
+                the sort order.
+              </Text>
+            </Box>
+            <Box marginLeft={1}>
+              <Text>
+                Press <Text bold color={`cyanBright`}>{`<v>`}</Text> to pick any
+                version.
+              </Text>
+            </Box>
           </Box>
           <Box flexDirection={`column`}>
             <Box marginLeft={1}>
@@ -480,99 +3984,749 @@ export default class UpgradeInteractiveCommand extends BaseCommand {
                 abort.
               </Text>
             </Box>
+            <Box marginLeft={1}>
+              <Text>
+                Press <Text bold color={`cyanBright`}>{`<m>`}</Text> to only
+                show major bumps.
+              </Text>
+            </Box>
+            <Box marginLeft={1}>
+              <Text>
+                Press <Text bold color={`cyanBright`}>{`<x>`}</Text> to reset
+                the selections and filters.
+              </Text>
+            </Box>
+            <Box marginLeft={1}>
+              <Text>
+                Press <Text bold color={`cyanBright`}>{`<c>`}</Text> to show the
+                release notes.
+              </Text>
+            </Box>
+          </Box>
+        </Box>
+      );
+    };
+
+    const Header = ({
+      query,
+      searching,
+      majorOnly,
+      hasPickedVersions,
+    }: {
+      query: string;
+      searching: boolean;
+      majorOnly: boolean;
+      hasPickedVersions: boolean;
+    }) => {
+      return (
+        <Box flexDirection={`row`} paddingTop={1} paddingBottom={1}>
+          <Box width={50}>
+            {searching || query !== `` || majorOnly ? (
+              <Text bold>
+                <Text color={`cyanBright`}>/</Text> {query}
+                {searching ? <Text color={`gray`}>_</Text> : null}
+                {majorOnly ? (
+                  <Text color={`gray`}> (major bumps only)</Text>
+                ) : null}
+              </Text>
+            ) : (
+              <Text bold>
+                <Text color={`greenBright`}>?</Text> Pick the packages you want
+                to upgrade.
+              </Text>
+            )}
+          </Box>
+          <Box width={17}>
+            <Text bold underline color={`gray`}>
+              Current
+            </Text>
+          </Box>
+          <Box width={17}>
+            <Text bold underline color={`gray`}>
+              Range
+            </Text>
+          </Box>
+          <Box width={17}>
+            <Text bold underline color={`gray`}>
+              {this.tag ?? `Latest`}
+            </Text>
+          </Box>
+          {hasBumpCeilings ? (
+            <Box width={17}>
+              <Text bold underline color={`gray`}>
+                Capped
+              </Text>
+            </Box>
+          ) : null}
+          {hasPickedVersions ? (
+            <Box width={17}>
+              <Text bold underline color={`gray`}>
+                Picked
+              </Text>
+            </Box>
+          ) : null}
+        </Box>
+      );
+    };
+
+    const WorkspaceHeader = ({
+      active,
+      workspace,
+      collapsed,
+      onToggle,
+      onActivate,
+    }: {
+      active: boolean;
+      workspace: Workspace;
+      collapsed: boolean;
+      onToggle: (collapsed: boolean) => void;
+      onActivate: () => void;
+    }) => {
+      useEffect(() => {
+        if (active) onActivate();
+      }, [active]);
+
+      useKeypress(
+        { active },
+        (ch, key) => {
+          if (key.name === `left`) {
+            onToggle(true);
+          } else if (key.name === `right`) {
+            onToggle(false);
+          }
+        },
+        [onToggle],
+      );
+
+      return (
+        <Box>
+          <Text bold color={`magentaBright`}>
+            {collapsed ? `▸` : `▾`}{' '}
+            {structUtils.stringifyIdent(workspace.anchoredLocator)}
+          </Text>
+          {active ? (
+            <Text color={`gray`}>
+              {' '}
+              (press {collapsed ? `<right>` : `<left>`} to{' '}
+              {collapsed ? `expand` : `collapse`})
+            </Text>
+          ) : null}
+        </Box>
+      );
+    };
+
+    const UpgradeEntry = ({
+      active,
+      row,
+      suggestions,
+      heldBack,
+      stale,
+      onActivate,
+    }: {
+      active: boolean;
+      row: UpgradeRow;
+      suggestions: Array<UpgradeSuggestion>;
+      heldBack: Array<HeldBackVersion>;
+      stale: boolean;
+      onActivate: () => void;
+    }) => {
+      const { descriptor } = row;
+      const [action, setAction] = useMinistore<string | null>(row.key, null);
+
+      // The warnings of the active row are detailed below the list, as each row is a single line
+      useEffect(() => {
+        if (active) onActivate();
+      }, [active]);
+
+      const badges = row.dependencyTypes
+        .map((dependencyType) => DEPENDENCY_TYPE_BADGES[dependencyType])
+        .filter((badge): badge is string => badge !== null);
+      const badgeLabel = badges.length > 0 ? ` (${badges.join(`, `)})` : ``;
+
+      const packageIdentifier = `${structUtils.stringifyIdent(
+        descriptor,
+      )}${badgeLabel}`;
+      const padLength = Math.max(0, 45 - packageIdentifier.length);
+      return (
+        <>
+          <Box>
+            <Box width={45}>
+              <Text bold>
+                {structUtils.prettyIdent(configuration, descriptor)}
+              </Text>
+              <Text color={`gray`}>{badgeLabel}</Text>
+              <Pad active={active} length={padLength} />
+            </Box>
+            <ItemOptions
+              active={active}
+              options={suggestions}
+              value={action}
+              skewer={true}
+              onChange={setAction}
+              sizes={suggestions.map(() => 17)}
+            />
+            {stale ? <Text color={`yellow`}> (stale)</Text> : null}
+            {heldBack.length > 0 ? (
+              <Text color={`gray`}>
+                {' '}
+                {heldBack
+                  .map(({ version, age }) => `${version} (${formatAge(age)})`)
+                  .join(`, `)}
+              </Text>
+            ) : null}
+          </Box>
+        </>
+      );
+    };
+
+    const GroupEntry = ({
+      active,
+      group,
+      suggestions,
+      expanded,
+      stale,
+      onToggle,
+      onActivate,
+    }: {
+      active: boolean;
+      group: UpgradeGroup;
+      suggestions: Array<UpgradeSuggestion>;
+      expanded: boolean;
+      stale: boolean;
+      onToggle: (expanded: boolean) => void;
+      onActivate: () => void;
+    }) => {
+      const [action, setAction] = useMinistore<string | null>(group.key, null);
+
+      useKeypress(
+        { active },
+        (ch, key) => {
+          if (key.name === `space`) {
+            onToggle(!expanded);
+          }
+        },
+        [expanded, onToggle],
+      );
+
+      useEffect(() => {
+        if (active) onActivate();
+      }, [active]);
+
+      const groupLabel = `${expanded ? `▾` : `▸`} ${group.name}`;
+      const countLabel = ` (${group.members.length} packages)`;
+      const padLength = Math.max(0, 45 - groupLabel.length - countLabel.length);
+
+      return (
+        <Box>
+          <Box width={45}>
+            <Text bold color={`cyanBright`}>
+              {groupLabel}
+            </Text>
+            <Text color={`gray`}>{countLabel}</Text>
+            <Pad active={active} length={padLength} />
           </Box>
+          <ItemOptions
+            active={active}
+            options={suggestions}
+            value={action}
+            skewer={true}
+            onChange={setAction}
+            sizes={suggestions.map(() => 17)}
+          />
+          {stale ? <Text color={`yellow`}> (stale)</Text> : null}
+          {active ? (
+            <Text color={`gray`}>
+              {' '}
+              (press {`<space>`} to {expanded ? `collapse` : `expand`})
+            </Text>
+          ) : null}
+        </Box>
+      );
+    };
+
+    // Each list entry is a single line, so the members of an expanded group get their own entries, acting on the group selection
+    const GroupMemberEntry = ({
+      active,
+      group,
+      member,
+      suggestions,
+      onActivate,
+    }: {
+      active: boolean;
+      group: UpgradeGroup;
+      member: UpgradeRow;
+      suggestions: Array<UpgradeSuggestion>;
+      onActivate: () => void;
+    }) => {
+      const [action, setAction] = useMinistore<string | null>(group.key, null);
+
+      useListInput(
+        action,
+        suggestions.filter(({ label }) => !!label).map(({ value }) => value),
+        {
+          active,
+          minus: `left`,
+          plus: `right`,
+          set: setAction,
+        },
+      );
+
+      useEffect(() => {
+        if (active) onActivate();
+      }, [active]);
+
+      return (
+        <Box marginLeft={2}>
+          <Text color={`gray`}>
+            {structUtils.stringifyIdent(member.descriptor)}{' '}
+            {member.descriptor.range}
+          </Text>
+          {active ? (
+            <Text color={`gray`}>
+              {' '}
+              (upgraded along with the {group.name} group)
+            </Text>
+          ) : null}
+        </Box>
+      );
+    };
+
+    const SectionHeader = ({
+      active,
+      label,
+      onActivate,
+    }: {
+      active: boolean;
+      label: string;
+      onActivate: () => void;
+    }) => {
+      useEffect(() => {
+        if (active) onActivate();
+      }, [active]);
+
+      return (
+        <Box>
+          <Text bold underline>
+            {label}
+          </Text>
+        </Box>
+      );
+    };
+
+    const ReleaseNotesPane = ({
+      row,
+      suggestions,
+    }: {
+      row: UpgradeItem;
+      suggestions: UpgradeSuggestions;
+    }) => {
+      const descriptor = isUpgradeGroup(row)
+        ? row.members[0].descriptor
+        : row.descriptor;
+      const [action] = useMinistore<string | null>(row.key, null);
+
+      // Without a selection, the newest version offered is previewed
+      const version =
+        (action !== null
+          ? getRangeVersion(action)
+          : semver.rsort(
+              suggestions
+                .map(({ value }) =>
+                  value !== null ? getRangeVersion(value) : null,
+                )
+                .filter((version): version is string => version !== null),
+            )[0]) ?? null;
+
+      const [notes, setNotes] = useState<ReleaseNotes | null | undefined>(
+        undefined,
+      );
+
+      useEffect(() => {
+        if (version === null) return undefined;
+
+        let cancelled = false;
+        setNotes(undefined);
+        fetchReleaseNotes(descriptor, version).then((notes) => {
+          if (!cancelled) setNotes(notes);
+        });
+
+        return () => {
+          cancelled = true;
+        };
+      }, [descriptor.descriptorHash, version]);
+
+      const renderNotes = () => {
+        if (version === null)
+          return <Text color={`gray`}>No version to preview</Text>;
+        if (typeof notes === `undefined`) return <Text>Loading...</Text>;
+        if (notes === null)
+          return (
+            <Text color={`gray`}>
+              Release notes are only available for the npm registry
+            </Text>
+          );
+
+        const { changelog } = notes;
+        const changelogSize = RELEASE_NOTES_SIZE - 2;
+        const changelogLines =
+          changelog !== null && changelog.length > changelogSize
+            ? [
+                ...changelog.slice(0, changelogSize - 1),
+                `… ${changelog.length - changelogSize + 1} more lines`,
+              ]
+            : changelog;
+
+        return (
+          <>
+            <Text bold wrap={`truncate`}>
+              {structUtils.stringifyIdent(descriptor)}{' '}
+              {notes.from ?? descriptor.range} → {notes.to} (
+              {notes.versions.length}{' '}
+              {notes.versions.length === 1 ? `version` : `versions`})
+            </Text>
+            <Text color={`gray`} wrap={`truncate`}>
+              {notes.versions
+                .map(({ version, publishedAt }) =>
+                  publishedAt !== null
+                    ? `${version} (${formatReleaseDate(publishedAt)})`
+                    : version,
+                )
+                .join(`, `)}
+            </Text>
+            {changelogLines !== null ? (
+              changelogLines.map((line, index) => (
+                <Text key={index} wrap={`truncate`}>
+                  {line}
+                </Text>
+              ))
+            ) : (
+              <Text color={`gray`}>No changelog in the package</Text>
+            )}
+          </>
+        );
+      };
+
+      return (
+        <Box
+          flexDirection={`column`}
+          marginTop={1}
+          marginLeft={1}
+          height={RELEASE_NOTES_SIZE}
+        >
+          {renderNotes()}
+        </Box>
+      );
+    };
+
+    const PickerEntry = ({
+      active,
+      version,
+      onPick,
+    }: {
+      active: boolean;
+      version: VersionSection[`versions`][number];
+      onPick: (version: string) => void;
+    }) => {
+      useKeypress(
+        { active },
+        (ch, key) => {
+          if (key.name === `return`) {
+            onPick(version.version);
+          }
+        },
+        [version, onPick],
+      );
+
+      return (
+        <Box>
+          <Text>
+            {version.tag !== null ? (
+              <Text color={`cyanBright`}>{version.tag} </Text>
+            ) : null}
+            {version.version}
+            {version.publishedAt !== null ? (
+              <Text color={`gray`}>
+                {' '}
+                ({formatReleaseDate(version.publishedAt)})
+              </Text>
+            ) : null}
+          </Text>
         </Box>
       );
     };
 
-    const Header = () => {
+    const VersionPicker = ({
+      row,
+      onPick,
+      onCancel,
+    }: {
+      row: UpgradeItem;
+      onPick: (version: string) => void;
+      onCancel: () => void;
+    }) => {
+      const descriptor = isUpgradeGroup(row)
+        ? row.members[0].descriptor
+        : row.descriptor;
+
+      const [sections, setSections] = useState<
+        Array<VersionSection> | null | undefined
+      >(undefined);
+
+      useEffect(() => {
+        let cancelled = false;
+        fetchPickableVersions(descriptor).then((sections) => {
+          if (!cancelled) setSections(sections);
+        });
+
+        return () => {
+          cancelled = true;
+        };
+      }, [descriptor.descriptorHash]);
+
+      useKeypress(
+        { active: true },
+        (ch, key) => {
+          if (key.name === `escape`) {
+            onCancel();
+          }
+        },
+        [onCancel],
+      );
+
+      const renderVersions = () => {
+        if (typeof sections === `undefined`) return <Text>Loading...</Text>;
+        if (sections === null)
+          return (
+            <Text color={`gray`}>
+              Only the versions of the npm registry can be listed
+            </Text>
+          );
+
+        const children: Array<React.ReactElement> = [];
+        for (const section of sections) {
+          children.push(
+            <SectionHeader
+              key={`section-${section.label}`}
+              active={false}
+              label={section.label}
+              onActivate={() => {}}
+            />,
+          );
+
+          // Several dist-tags may point to the same version, each tag is unique within its section though
+          for (const version of section.versions) {
+            children.push(
+              <PickerEntry
+                key={`${section.label}-${version.tag ?? version.version}`}
+                active={false}
+                version={version}
+                onPick={onPick}
+              />,
+            );
+          }
+        }
+
+        return (
+          <ScrollableItems
+            radius={(RELEASE_NOTES_SIZE - 2) >> 1}
+            children={children}
+          />
+        );
+      };
+
       return (
-        <Box flexDirection={`row`} paddingTop={1} paddingBottom={1}>
-          <Box width={50}>
-            <Text bold>
-              <Text color={`greenBright`}>?</Text> Pick the packages you want to
-              upgrade.
-            </Text>
-          </Box>
-          <Box width={17}>
-            <Text bold underline color={`gray`}>
-              Current
-            </Text>
-          </Box>
-          <Box width={17}>
-            <Text bold underline color={`gray`}>
-              Range
+        <Box
+          flexDirection={`column`}
+          marginTop={1}
+          marginLeft={1}
+          height={RELEASE_NOTES_SIZE}
+        >
+          <Text bold>
+            Pick a version of {structUtils.stringifyIdent(descriptor)}
+            <Text color={`gray`}>
+              {' '}
+              (press {`<enter>`} to pick, {`<esc>`} to cancel)
             </Text>
-          </Box>
-          <Box width={17}>
-            <Text bold underline color={`gray`}>
-              Latest
-            </Text>
-          </Box>
+          </Text>
+          {renderVersions()}
         </Box>
       );
     };
 
-    const UpgradeEntry = ({
-      active,
-      descriptor,
+    const WarningDetails = ({
       suggestions,
+      pickFailure,
     }: {
-      active: boolean;
-      descriptor: Descriptor;
-      suggestions: Array<UpgradeSuggestion>;
+      suggestions: UpgradeSuggestions;
+      pickFailure: string | null;
     }) => {
-      const [action, setAction] = useMinistore<string | null>(
-        descriptor.descriptorHash,
-        null,
+      const warnedSuggestions = suggestions.filter(
+        ({ value, warnings }) => value !== null && warnings.length > 0,
       );
+      if (warnedSuggestions.length === 0 && pickFailure === null) return null;
 
-      const packageIdentifier = structUtils.stringifyIdent(descriptor);
-      const padLength = Math.max(0, 45 - packageIdentifier.length);
       return (
-        <>
-          <Box>
-            <Box width={45}>
-              <Text bold>
-                {structUtils.prettyIdent(configuration, descriptor)}
+        <Box flexDirection={`column`} marginTop={1} marginLeft={1}>
+          {pickFailure !== null ? (
+            <Text color={`red`}>{pickFailure}</Text>
+          ) : null}
+          {warnedSuggestions.map(({ value, label, warnings }) =>
+            warnings.map(({ type, message }) => (
+              <Text key={`${value}-${type}`}>
+                <Text bold color={`yellow`}>
+                  {VERSION_WARNING_BADGES[type]}
+                </Text>{' '}
+                {value}: {message}
+                {label === `` ? <Text color={`gray`}> (refused)</Text> : null}
               </Text>
-              <Pad active={active} length={padLength} />
-            </Box>
-            <ItemOptions
-              active={active}
-              options={suggestions}
-              value={action}
-              skewer={true}
-              onChange={setAction}
-              sizes={[17, 17, 17]}
-            />
-          </Box>
-        </>
+            )),
+          )}
+        </Box>
       );
     };
 
     const UpgradeEntries = ({
-      dependencies,
+      rows,
+      active,
+      query,
+      majorOnly,
+      sortOrder,
+      picker,
+      pickedVersions,
+      pickFailures,
+      staleKeys,
+      onSelect,
+      onPickVersion,
     }: {
-      dependencies: Array<Descriptor>;
+      rows: Array<UpgradeItem>;
+      active: boolean;
+      query: string;
+      majorOnly: boolean;
+      sortOrder: SortOrder;
+      picker: React.ReactElement | null;
+      pickedVersions: Map<string, UpgradeSuggestion>;
+      pickFailures: Map<string, string>;
+      staleKeys: Set<string>;
+      onSelect: (selections: Map<string, string | null>) => void;
+      onPickVersion: (row: UpgradeItem) => void;
     }) => {
       const [suggestions, setSuggestions] = useState<
         Array<{
-          descriptor: Descriptor;
+          row: UpgradeItem;
           suggestions: UpgradeSuggestions;
+          heldBack: Array<HeldBackVersion>;
         } | null>
-      >(dependencies.map(() => null));
+      >(rows.map(() => null));
+      const [collapsedWorkspaces, setCollapsedWorkspaces] = useState<
+        Set<Workspace>
+      >(new Set());
+      const [expandedGroups, setExpandedGroups] = useState<Set<string>>(
+        new Set(),
+      );
+      const [activeEntry, setActiveEntry] = useState<{
+        row: UpgradeItem;
+        suggestions: UpgradeSuggestions;
+      } | null>(null);
+      const [showReleaseNotes, setShowReleaseNotes] = useState<boolean>(false);
       const mountedRef = useRef<boolean>(true);
 
-      const getSuggestionsForDescriptor = async (descriptor: Descriptor) => {
-        const suggestions = await fetchSuggestions(descriptor);
+      // Once a version has been picked, every row gets a Picked column, left blank when it would repeat another column
+      const getOptions = ({
+        row,
+        suggestions,
+      }: {
+        row: UpgradeItem;
+        suggestions: UpgradeSuggestions;
+      }): UpgradeSuggestions => {
+        if (pickedVersions.size === 0) return suggestions;
+
+        const blank = { value: null, label: ``, warnings: [] };
+        const picked = pickedVersions.get(row.key);
+
+        return [
+          ...suggestions,
+          ...Array.from(
+            { length: (hasBumpCeilings ? 4 : 3) - suggestions.length },
+            () => blank,
+          ),
+          typeof picked !== `undefined` &&
+          !suggestions.some(({ value }) => value === picked.value)
+            ? picked
+            : blank,
+        ];
+      };
+
+      const getSuggestionsForRow = async (row: UpgradeItem) => {
+        if (isUpgradeGroup(row)) {
+          const suggestions = await fetchGroupSuggestions(row);
+          if (suggestions.every(({ value }) => value === null)) return null;
+
+          return { row, suggestions, heldBack: [] };
+        }
+
+        let suggestions = await fetchCachedSuggestions(row.descriptor);
+
+        if (hasBumpCeilings) {
+          const capped =
+            row.maxBump !== null
+              ? await fetchCachedCappedRange(row.descriptor, row.maxBump)
+              : null;
+
+          // Same as the Latest column, versions already offered by another column are left blank
+          suggestions = [
+            ...suggestions,
+            capped !== null &&
+            !suggestions.some(({ value }) => value === capped)
+              ? await makeSuggestion(row.descriptor, capped)
+              : { value: null, label: ``, warnings: [] },
+          ];
+        }
+
+        // Without a label the versions can't be selected, but their warnings are still detailed
+        if (this.refuseWarnings)
+          suggestions = suggestions.map((suggestion) =>
+            suggestion.warnings.length > 0
+              ? { ...suggestion, label: `` }
+              : suggestion,
+          );
+
+        // Dependencies whose upgrades are all held back are still listed, so that they don't go unnoticed
+        const heldBack = await fetchHeldBackVersions(row.descriptor);
         if (
           suggestions.filter((suggestion) => suggestion.label !== ``).length <=
-          1
+            1 &&
+          heldBack.length === 0 &&
+          suggestions.every(({ warnings }) => warnings.length === 0)
         )
           return null;
 
-        return { descriptor, suggestions };
+        return { row, suggestions, heldBack };
+      };
+
+      const toggleGroup = (group: UpgradeGroup, expanded: boolean) => {
+        setExpandedGroups((expandedGroups) => {
+          const newExpandedGroups = new Set(expandedGroups);
+          if (expanded) {
+            newExpandedGroups.add(group.key);
+          } else {
+            newExpandedGroups.delete(group.key);
+          }
+
+          return newExpandedGroups;
+        });
+      };
+
+      const toggleWorkspace = (workspace: Workspace, collapsed: boolean) => {
+        setCollapsedWorkspaces((collapsedWorkspaces) => {
+          const newCollapsedWorkspaces = new Set(collapsedWorkspaces);
+          if (collapsed) {
+            newCollapsedWorkspaces.add(workspace);
+          } else {
+            newCollapsedWorkspaces.delete(workspace);
+          }
+
+          return newCollapsedWorkspaces;
+        });
       };
 
       useEffect(() => {
@@ -587,13 +4741,8 @@ export default class UpgradeInteractiveCommand extends BaseCommand {
 
         const foregroundDependencyCount = Math.trunc(VIEWPORT_SIZE * 1.75);
 
-        const foregroundDependencies = dependencies.slice(
-          0,
-          foregroundDependencyCount,
-        );
-        const backgroundDependencies = dependencies.slice(
-          foregroundDependencyCount,
-        );
+        const foregroundDependencies = rows.slice(0, foregroundDependencyCount);
+        const backgroundDependencies = rows.slice(foregroundDependencyCount);
 
         const backgroundDependencyGroups = partition(
           backgroundDependencies,
@@ -601,7 +4750,7 @@ export default class UpgradeInteractiveCommand extends BaseCommand {
         );
 
         const foregroundLock = foregroundDependencies
-          .map(getSuggestionsForDescriptor)
+          .map(getSuggestionsForRow)
           .reduce(async (lock, currentSuggestionPromise) => {
             await lock;
 
@@ -626,10 +4775,8 @@ export default class UpgradeInteractiveCommand extends BaseCommand {
           .reduce(
             (lock, group) =>
               Promise.all(
-                group.map((descriptor) =>
-                  Promise.resolve().then(() =>
-                    getSuggestionsForDescriptor(descriptor),
-                  ),
+                group.map((row) =>
+                  Promise.resolve().then(() => getSuggestionsForRow(row)),
                 ),
               ).then(async (newSuggestions) => {
                 newSuggestions = newSuggestions.filter(
@@ -665,75 +4812,666 @@ export default class UpgradeInteractiveCommand extends BaseCommand {
           });
       }, []);
 
+      // Rows that are still loading can't be told to match the filters, so they're only shown without filters
+      const matchesFilters = (suggestion: typeof suggestions[number]) => {
+        if (suggestion === null) return query === `` && !majorOnly;
+
+        const { row } = suggestion;
+        const names = isUpgradeGroup(row)
+          ? [
+              row.name,
+              ...row.members.map(({ descriptor }) =>
+                structUtils.stringifyIdent(descriptor),
+              ),
+            ]
+          : [structUtils.stringifyIdent(row.descriptor)];
+
+        if (
+          query !== `` &&
+          !names.some((name) => matchesFuzzyQuery(name, query))
+        )
+          return false;
+
+        if (majorOnly) {
+          const currentRange = isUpgradeGroup(row)
+            ? row.members[0].descriptor.range
+            : row.descriptor.range;
+
+          return suggestion.suggestions.some(
+            ({ value }) => value !== null && isMajorBump(currentRange, value),
+          );
+        }
+
+        return true;
+      };
+
+      const visibleSuggestions = [...suggestions.entries()].filter(
+        ([, suggestion]) => matchesFilters(suggestion),
+      );
+
+      // The first column holding a selectable version is picked, the rows without any being left as is
+      const selectVisibleRows = (columns: Array<number>) => {
+        const selections = new Map<string, string | null>();
+
+        for (const [, suggestion] of visibleSuggestions) {
+          if (suggestion === null) continue;
+          if (
+            suggestion.row.workspace !== null &&
+            collapsedWorkspaces.has(suggestion.row.workspace)
+          )
+            continue;
+
+          const option = columns
+            .map((column) => suggestion.suggestions[column])
+            .find(
+              (option) =>
+                typeof option !== `undefined` &&
+                option.value !== null &&
+                option.label !== ``,
+            );
+
+          if (typeof option !== `undefined`)
+            selections.set(suggestion.row.key, option.value);
+        }
+
+        onSelect(selections);
+      };
+
+      useKeypress(
+        { active },
+        (ch) => {
+          if (ch === `c`) {
+            setShowReleaseNotes((showReleaseNotes) => !showReleaseNotes);
+          } else if (ch === `r`) {
+            selectVisibleRows([1]);
+          } else if (ch === `l`) {
+            // The Latest column is blank when it's the same version as the Range one
+            selectVisibleRows([2, 1]);
+          } else if (ch === `v` && activeEntry !== null) {
+            onPickVersion(activeEntry.row);
+          }
+        },
+        [
+          visibleSuggestions,
+          collapsedWorkspaces,
+          activeEntry,
+          onSelect,
+          onPickVersion,
+        ],
+      );
+
       if (!suggestions.length) return <Text>No upgrades found</Text>;
+      if (!visibleSuggestions.length)
+        return <Text>No upgrades match the filters</Text>;
+
+      const sectionedSuggestions = visibleSuggestions.map(
+        ([index, suggestion]) => ({
+          index,
+          suggestion,
+          section:
+            suggestion !== null
+              ? getSortSection(
+                  sortOrder,
+                  suggestion.row,
+                  suggestion.suggestions,
+                )
+              : null,
+        }),
+      );
+
+      // The rows listed per workspace stay in their workspace, and the rows still loading are listed last
+      if (sortOrder !== `name`) {
+        const getWorkspaceRank = ({
+          suggestion,
+        }: typeof sectionedSuggestions[number]) => {
+          const workspace = suggestion?.row.workspace ?? null;
+          return workspace !== null ? sortedWorkspaces.indexOf(workspace) : 0;
+        };
+
+        sectionedSuggestions.sort(
+          (a, b) =>
+            getWorkspaceRank(a) - getWorkspaceRank(b) ||
+            (a.suggestion === null ? 1 : 0) - (b.suggestion === null ? 1 : 0) ||
+            (a.section?.rank ?? 0) - (b.section?.rank ?? 0) ||
+            a.index - b.index,
+        );
+      }
+
+      const children: Array<React.ReactElement> = [];
+      let previousWorkspace: Workspace | null = null;
+      let previousSection: string | null = null;
+
+      for (const { index, suggestion, section } of sectionedSuggestions) {
+        const workspace = suggestion?.row.workspace ?? null;
+
+        // The rows are sorted by workspace, so a new workspace starts a new section
+        if (workspace !== null && workspace !== previousWorkspace) {
+          children.push(
+            <WorkspaceHeader
+              key={`workspace-${workspace.anchoredLocator.locatorHash}`}
+              active={false}
+              workspace={workspace}
+              collapsed={collapsedWorkspaces.has(workspace)}
+              onToggle={(collapsed) => toggleWorkspace(workspace, collapsed)}
+              onActivate={() => setActiveEntry(null)}
+            />,
+          );
+          previousWorkspace = workspace;
+          previousSection = null;
+        }
+
+        if (workspace !== null && collapsedWorkspaces.has(workspace)) continue;
+
+        if (section !== null && section.label !== previousSection) {
+          children.push(
+            <SectionHeader
+              key={`section-${workspace?.anchoredLocator.locatorHash ?? ``}-${
+                section.label
+              }`}
+              active={false}
+              label={section.label}
+              onActivate={() => setActiveEntry(null)}
+            />,
+          );
+          previousSection = section.label;
+        }
+
+        // We use the same keys so that we don't lose the selection when a suggestion finishes loading
+        if (suggestion === null) {
+          children.push(<Text key={index}>Loading...</Text>);
+          continue;
+        }
+
+        const { row } = suggestion;
+
+        if (isUpgradeGroup(row)) {
+          const group = row;
+
+          const expanded = expandedGroups.has(group.key);
+
+          children.push(
+            <GroupEntry
+              key={index}
+              active={false}
+              group={group}
+              suggestions={getOptions(suggestion)}
+              expanded={expanded}
+              stale={staleKeys.has(group.key)}
+              onToggle={(expanded) => toggleGroup(group, expanded)}
+              onActivate={() => setActiveEntry(suggestion)}
+            />,
+          );
+
+          if (expanded) {
+            for (const member of group.members) {
+              children.push(
+                <GroupMemberEntry
+                  key={`${index}-${member.key}`}
+                  active={false}
+                  group={group}
+                  member={member}
+                  suggestions={getOptions(suggestion)}
+                  onActivate={() => setActiveEntry(suggestion)}
+                />,
+              );
+            }
+          }
+
+          continue;
+        }
+
+        children.push(
+          <UpgradeEntry
+            key={index}
+            active={false}
+            row={row}
+            suggestions={getOptions(suggestion)}
+            heldBack={suggestion.heldBack}
+            stale={staleKeys.has(row.key)}
+            onActivate={() => setActiveEntry(suggestion)}
+          />,
+        );
+      }
 
       return (
-        <ScrollableItems
-          radius={VIEWPORT_SIZE >> 1}
-          children={suggestions.map((suggestion, index) => {
-            // We use the same keys so that we don't lose the selection when a suggestion finishes loading
-            return suggestion !== null ? (
-              <UpgradeEntry
-                key={index}
-                active={false}
-                descriptor={suggestion.descriptor}
-                suggestions={suggestion.suggestions}
-              />
-            ) : (
-              <Text key={index}>Loading...</Text>
-            );
-          })}
-        />
+        <Box flexDirection={`column`}>
+          <ScrollableItems
+            active={active}
+            radius={
+              showReleaseNotes || picker !== null
+                ? (VIEWPORT_SIZE - RELEASE_NOTES_SIZE - 1) >> 1
+                : VIEWPORT_SIZE >> 1
+            }
+            children={children}
+          />
+          {activeEntry !== null ? (
+            <WarningDetails
+              suggestions={getOptions(activeEntry)}
+              pickFailure={pickFailures.get(activeEntry.row.key) ?? null}
+            />
+          ) : null}
+          {picker}
+          {picker === null && showReleaseNotes && activeEntry !== null ? (
+            <ReleaseNotesPane
+              row={activeEntry.row}
+              suggestions={activeEntry.suggestions}
+            />
+          ) : null}
+        </Box>
       );
     };
 
+    const rows = await collectUpgradeItems(collectRows());
+
+    // Shows the peer conflicts of the selection until they're solved or accepted, null meaning that the upgrade was aborted
+    const confirmPeerConflicts = async (
+      updateRequests: Map<string, string | null>,
+    ): Promise<Map<string, string | null> | null> => {
+      let requests = updateRequests;
+
+      while (true) {
+        const conflicts = await findPeerConflicts(requests);
+        if (conflicts.length === 0) return requests;
+
+        const companions = conflicts
+          .map(({ companion }) => companion)
+          .filter(
+            (companion): companion is NonNullable<PeerConflict[`companion`]> =>
+              companion !== null &&
+              requests.get(companion.key) !== companion.range,
+          );
+
+        const options: Array<{ value: PeerResolution; label: string }> = [
+          ...(companions.length > 0
+            ? [
+                {
+                  value: `companions` as const,
+                  label: `Add the companion upgrades`,
+                },
+              ]
+            : []),
+          { value: `ignore`, label: `Apply anyway` },
+          { value: `abort`, label: `Abort` },
+        ];
+
+        const PeerConflictsApp: SubmitInjectedComponent<PeerResolution> = ({
+          useSubmit,
+        }) => {
+          const [resolution, setResolution] = useState<PeerResolution>(
+            options[0].value,
+          );
+          useSubmit(resolution);
+
+          return (
+            <Box flexDirection={`column`}>
+              <Box paddingTop={1} paddingBottom={1}>
+                <Text bold>
+                  <Text color={`yellowBright`}>!</Text> The selected upgrades
+                  don't satisfy some peer dependencies.
+                </Text>
+              </Box>
+              {conflicts.map((conflict, index) => (
+                <Box key={index} marginLeft={1}>
+                  <Text>
+                    <Text color={`magentaBright`}>
+                      {structUtils.stringifyIdent(
+                        conflict.workspace.anchoredLocator,
+                      )}
+                    </Text>{' '}
+                    {stringifyPeerConflict(conflict)}
+                  </Text>
+                </Box>
+              ))}
+              <Box marginTop={1}>
+                <ItemOptions
+                  active={true}
+                  options={options}
+                  value={resolution}
+                  onChange={setResolution}
+                  sizes={options.map(({ label }) => label.length + 4)}
+                />
+              </Box>
+              <Box marginLeft={1} marginTop={1}>
+                <Text>
+                  Press <Text bold color={`cyanBright`}>{`<left>`}</Text>/
+                  <Text bold color={`cyanBright`}>{`<right>`}</Text> to choose,{' '}
+                  <Text bold color={`cyanBright`}>{`<enter>`}</Text> to confirm.
+                </Text>
+              </Box>
+            </Box>
+          );
+        };
+
+        const resolution = await renderForm(
+          PeerConflictsApp,
+          {},
+          {
+            stdin: this.context.stdin,
+            stdout: this.context.stdout,
+            stderr: this.context.stderr,
+          },
+        );
+
+        if (typeof resolution === `undefined` || resolution === `abort`)
+          return null;
+        if (resolution === `ignore`) return requests;
+
+        requests = new Map(requests);
+        for (const { key, range } of companions) {
+          requests.set(key, range);
+        }
+      }
+    };
+
+    // While searching, <enter> confirms the query rather than the upgrade
+    const SubmitSelections = ({
+      useSubmit,
+      selections,
+    }: {
+      useSubmit: (value: Map<string, string | null>) => void;
+      selections: Map<string, string | null>;
+    }) => {
+      useSubmit(selections);
+      return null;
+    };
+
+    const rowsByKey = new Map(rows.map((row) => [row.key, row]));
+
+    // The selections are saved after each change, each write waiting for the previous one
+    let pendingSessionSave = Promise.resolve();
+    const saveSession = (
+      selections: Map<string, string | null>,
+      pickedVersions: Map<string, UpgradeSuggestion>,
+    ) => {
+      // A dry run doesn't write anything, the session included
+      if (this.dryRun) return;
+
+      pendingSessionSave = pendingSessionSave.then(async () => {
+        const sessionSelections: Array<SessionSelection> = [];
+
+        for (const [key, range] of selections) {
+          const item = rowsByKey.get(key);
+          if (typeof item === `undefined` || range === null) continue;
+
+          sessionSelections.push({
+            key,
+            name: isUpgradeGroup(item)
+              ? item.name
+              : structUtils.stringifyIdent(item.descriptor),
+            workspace: item.workspace?.relativeCwd ?? null,
+            current: isUpgradeGroup(item)
+              ? item.members[0].descriptor.range
+              : item.descriptor.range,
+            range,
+            picked: pickedVersions.get(key)?.value === range,
+            suggestions: await fetchOfferedRanges(item),
+          });
+        }
+
+        await saveUpgradeSession(configuration, {
+          perWorkspace: this.perWorkspace,
+          selections: sessionSelections,
+        });
+      });
+
+      // A session that can't be written doesn't get in the way of the upgrade
+      pendingSessionSave = pendingSessionSave.catch(() => {});
+    };
+
+    // The ranges that a column of the row shows and lets select, the Picked one aside
+    const fetchSelectableRanges = async (
+      item: UpgradeItem,
+    ): Promise<Array<string>> => {
+      const [, ...suggestions] = isUpgradeGroup(item)
+        ? await fetchGroupSuggestions(item)
+        : await fetchCachedSuggestions(item.descriptor);
+
+      const ranges = suggestions
+        .filter(
+          ({ value, warnings }) =>
+            value !== null && !(this.refuseWarnings && warnings.length > 0),
+        )
+        .map(({ value }) => value!);
+
+      if (!isUpgradeGroup(item) && item.maxBump !== null) {
+        const capped = await fetchCachedCappedRange(
+          item.descriptor,
+          item.maxBump,
+        );
+        if (capped !== null) ranges.push(capped);
+      }
+
+      return ranges;
+    };
+
+    // A selection that no column shows anymore would be applied without being visible, so it isn't resumed
+    const resumedSelections = new Map<string, string | null>();
+    let droppedSelectionCount = 0;
+    for (const selection of session?.selections ?? []) {
+      const item = rowsByKey.get(selection.key);
+      if (typeof item === `undefined`) continue;
+
+      if (
+        selection.picked ||
+        (await fetchSelectableRanges(item)).includes(selection.range)
+      ) {
+        resumedSelections.set(selection.key, selection.range);
+      } else {
+        droppedSelectionCount += 1;
+      }
+    }
+
+    if (droppedSelectionCount > 0)
+      await StreamReport.start(
+        {
+          configuration,
+          stdout: this.context.stdout,
+          includeFooter: false,
+        },
+        async (report) => {
+          report.reportWarning(
+            MessageName.UNNAMED,
+            `${droppedSelectionCount} of the saved selections weren't resumed, as their rows don't offer these versions anymore`,
+          );
+        },
+      );
+
     const GlobalListApp: SubmitInjectedComponent<
       Map<string, string | null>
     > = ({ useSubmit }) => {
-      useSubmit(useMinistore());
+      // Unlike the libui one, this store accepts several changes in the same keypress, as needed by the bulk selections
+      const [selections, setSelections] =
+        useState<Map<string, string | null>>(resumedSelections);
+      const ministore = useMemo(
+        () => ({
+          getAll: () => selections,
+          get: (key: string) => selections.get(key),
+          set: (key: string, value: string | null) =>
+            setSelections(
+              (selections) => new Map([...selections, [key, value]]),
+            ),
+        }),
+        [selections],
+      );
 
-      const allDependencies = new Map<DescriptorHash, Descriptor>();
+      const [query, setQuery] = useState<string>(``);
+      const [searching, setSearching] = useState<boolean>(false);
+      const [majorOnly, setMajorOnly] = useState<boolean>(false);
+      const [sortOrder, setSortOrder] = useState<SortOrder>(this.sort);
+      const [pickingRow, setPickingRow] = useState<UpgradeItem | null>(null);
+      const [pickedVersions, setPickedVersions] = useState<
+        Map<string, UpgradeSuggestion>
+      >(new Map());
+      const [pickFailures, setPickFailures] = useState<Map<string, string>>(
+        new Map(),
+      );
+      const [staleKeys, setStaleKeys] = useState<Set<string>>(new Set());
+      const savedSelectionsRef = useRef(selections);
 
-      for (const workspace of project.workspaces) {
-        if (
-          workspace.manifest.name?.identHash &&
-          (requiredWorkspaces === null ||
-            requiredWorkspaces.has(workspace.manifest.name.identHash))
-        ) {
-          for (const dependencyType of [
-            `dependencies`,
-            `devDependencies`,
-          ] as Array<HardDependencies>) {
-            for (const descriptor of workspace.manifest[
-              dependencyType
-            ].values()) {
-              if (project.tryWorkspaceByDescriptor(descriptor) === null) {
-                const packageName = structUtils.stringifyIdent(descriptor);
-                // Skip excluded dependencies
-                if (
-                  !isPackageExcluded(packageName, workspace, descriptor.range)
-                ) {
-                  allDependencies.set(descriptor.descriptorHash, descriptor);
-                }
-              }
-            }
-          }
+      // The resumed selections are checked against the versions offered now, and their picked versions listed again
+      useEffect(() => {
+        for (const selection of session?.selections ?? []) {
+          const item = rowsByKey.get(selection.key);
+          if (typeof item === `undefined`) continue;
+
+          isStaleSelection(selection, item).then((stale) => {
+            if (stale)
+              setStaleKeys(
+                (staleKeys) => new Set([...staleKeys, selection.key]),
+              );
+          });
+
+          const version = getRangeVersion(selection.range);
+          if (selection.picked && version !== null)
+            // Same as a selection no column shows, a picked version that can't be listed again isn't resumed
+            makePickedSuggestion(item, version).then(
+              (suggestion) => {
+                setPickedVersions(
+                  (pickedVersions) =>
+                    new Map([...pickedVersions, [item.key, suggestion]]),
+                );
+                if (suggestion.label === ``)
+                  selectRows(new Map([[item.key, null]]));
+              },
+              (error) => {
+                reportPickFailure(item, version, error);
+                selectRows(new Map([[item.key, null]]));
+              },
+            );
+        }
+      }, []);
+
+      // Opening the window doesn't overwrite the saved session, only changing the selections does
+      useEffect(() => {
+        if (selections === savedSelectionsRef.current) return;
+
+        savedSelectionsRef.current = selections;
+        saveSession(selections, pickedVersions);
+      }, [selections]);
+
+      const selectRows = (newSelections: Map<string, string | null>) => {
+        setSelections(
+          (selections) => new Map([...selections, ...newSelections]),
+        );
+      };
+
+      const reportPickFailure = (
+        row: UpgradeItem,
+        version: string,
+        error: Error,
+      ) => {
+        setPickFailures(
+          (pickFailures) =>
+            new Map([
+              ...pickFailures,
+              [row.key, `Couldn't pick ${version}: ${error.message}`],
+            ]),
+        );
+      };
+
+      // Refused versions are listed in the Picked column with their warnings, but can't be selected
+      // A version that can't be fetched leaves the row as it was, the failure being detailed below the list
+      const pickVersion = async (row: UpgradeItem, version: string) => {
+        setPickingRow(null);
+
+        let suggestion: UpgradeSuggestion;
+        try {
+          suggestion = await makePickedSuggestion(row, version);
+        } catch (error) {
+          reportPickFailure(row, version, error);
+          return;
         }
-      }
 
-      const sortedDependencies = miscUtils.sortMap(
-        allDependencies.values(),
-        (descriptor) => {
-          return structUtils.stringifyDescriptor(descriptor);
+        setPickFailures((pickFailures) => {
+          const newPickFailures = new Map(pickFailures);
+          newPickFailures.delete(row.key);
+          return newPickFailures;
+        });
+        setPickedVersions(
+          (pickedVersions) =>
+            new Map([...pickedVersions, [row.key, suggestion]]),
+        );
+
+        if (suggestion.label !== ``)
+          selectRows(new Map([[row.key, suggestion.value]]));
+      };
+
+      useKeypress(
+        { active: true },
+        (ch, key) => {
+          if (pickingRow !== null) return;
+
+          if (searching) {
+            if (key.name === `return`) {
+              setSearching(false);
+            } else if (key.name === `escape`) {
+              setSearching(false);
+              setQuery(``);
+            } else if (key.name === `backspace`) {
+              setQuery((query) => query.slice(0, -1));
+            } else if (ch && ch >= ` ` && !key.ctrl && !key.meta) {
+              setQuery((query) => query + ch);
+            }
+          } else if (ch === `/`) {
+            setSearching(true);
+          } else if (key.name === `escape`) {
+            setQuery(``);
+          } else if (ch === `m`) {
+            setMajorOnly((majorOnly) => !majorOnly);
+          } else if (ch === `s`) {
+            setSortOrder(
+              (sortOrder) =>
+                SORT_ORDERS[
+                  (SORT_ORDERS.indexOf(sortOrder) + 1) % SORT_ORDERS.length
+                ],
+            );
+          } else if (ch === `x`) {
+            setSelections(new Map());
+            setPickedVersions(new Map());
+            setQuery(``);
+            setMajorOnly(false);
+          }
         },
+        [searching, pickingRow],
       );
 
+      // The selections of the rows hidden by the filters are kept, as they live in the store rather than in the rows
       return (
-        <Box flexDirection={`column`}>
-          <Prompt />
-          <Header />
-          <UpgradeEntries dependencies={sortedDependencies} />
-        </Box>
+        <MinistoreContext.Provider value={ministore}>
+          <Box flexDirection={`column`}>
+            {searching || pickingRow !== null ? null : (
+              <SubmitSelections useSubmit={useSubmit} selections={selections} />
+            )}
+            <Prompt />
+            <Header
+              query={query}
+              searching={searching}
+              majorOnly={majorOnly}
+              hasPickedVersions={pickedVersions.size > 0}
+            />
+            <UpgradeEntries
+              rows={rows}
+              active={!searching && pickingRow === null}
+              query={query}
+              majorOnly={majorOnly}
+              sortOrder={sortOrder}
+              picker={
+                pickingRow !== null ? (
+                  <VersionPicker
+                    row={pickingRow}
+                    onPick={(version) => pickVersion(pickingRow, version)}
+                    onCancel={() => setPickingRow(null)}
+                  />
+                ) : null
+              }
+              pickedVersions={pickedVersions}
+              pickFailures={pickFailures}
+              staleKeys={staleKeys}
+              onSelect={selectRows}
+              onPickVersion={setPickingRow}
+            />
+          </Box>
+        </MinistoreContext.Provider>
       );
     };
 
@@ -748,42 +5486,18 @@ export default class UpgradeInteractiveCommand extends BaseCommand {
     );
     if (typeof updateRequests === `undefined`) return 1;
 
-    let hasChanged = false;
-
-    for (const workspace of project.workspaces) {
-      for (const dependencyType of [
-        `dependencies`,
-        `devDependencies`,
-      ] as Array<HardDependencies>) {
-        const dependencies = workspace.manifest[dependencyType];
-
-        for (const descriptor of dependencies.values()) {
-          const newRange = updateRequests.get(descriptor.descriptorHash);
-
-          if (typeof newRange !== `undefined` && newRange !== null) {
-            dependencies.set(
-              descriptor.identHash,
-              structUtils.makeDescriptor(descriptor, newRange),
-            );
-            hasChanged = true;
-          }
-        }
-      }
-    }
+    const confirmedRequests = await confirmPeerConflicts(
+      await expandGroupSelections(rows.filter(isUpgradeGroup), updateRequests),
+    );
+    if (confirmedRequests === null) return 1;
 
-    if (!hasChanged) return 0;
+    const exitCode = await commitUpdateRequests(confirmedRequests);
 
-    const installReport = await StreamReport.start(
-      {
-        configuration,
-        stdout: this.context.stdout,
-        includeLogs: !this.context.quiet,
-      },
-      async (report) => {
-        await project.install({ cache, report });
-      },
-    );
+    // Once applied, the session has nothing left to resume
+    await pendingSessionSave;
+    if (exitCode === 0 && !this.dryRun)
+      await removeUpgradeSession(configuration);
 
-    return installReport.exitCode();
+    return exitCode;
   }
 }
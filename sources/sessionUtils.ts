@@ -0,0 +1,90 @@
+import { Configuration } from '@yarnpkg/core';
+import { Filename, PortablePath, ppath, xfs } from '@yarnpkg/fslib';
+import { UsageError } from 'clipanion';
+import * as t from 'typanion';
+
+export const SESSION_FILENAME =
+  `upgrade-interactive-filter.session.json` as Filename;
+
+// Stored next to the install state, in the .yarn folder that the .gitignore recommended by Yarn already excludes
+export const getSessionPath = (configuration: Configuration): PortablePath =>
+  ppath.join(
+    ppath.dirname(configuration.get(`installStatePath`)),
+    SESSION_FILENAME,
+  );
+
+// Each selection keeps the versions offered by its row, so that a resumed session can tell which ones changed since
+export type SessionSelection = {
+  key: string;
+  name: string;
+  workspace: string | null;
+  current: string;
+  range: string;
+  picked: boolean;
+  suggestions: Array<string>;
+};
+
+// The row keys differ when the rows are listed per workspace, so the sessions only resume in the mode they were saved in
+export type UpgradeSession = {
+  perWorkspace: boolean;
+  selections: Array<SessionSelection>;
+};
+
+const isUpgradeSession = t.isObject({
+  perWorkspace: t.isBoolean(),
+  selections: t.isArray(
+    t.isObject({
+      key: t.isString(),
+      name: t.isString(),
+      workspace: t.isNullable(t.isString()),
+      current: t.isString(),
+      range: t.isString(),
+      picked: t.isBoolean(),
+      suggestions: t.isArray(t.isString()),
+    }),
+  ),
+});
+
+export const loadUpgradeSession = async (
+  configuration: Configuration,
+): Promise<UpgradeSession | null> => {
+  const sessionPath = getSessionPath(configuration);
+  if (!xfs.existsSync(sessionPath)) return null;
+
+  let data: unknown;
+  try {
+    data = JSON.parse(await xfs.readFilePromise(sessionPath, `utf8`));
+  } catch (error) {
+    throw new UsageError(
+      `Failed to parse ${SESSION_FILENAME}: ${error.message}`,
+    );
+  }
+
+  const errors: Array<string> = [];
+  if (!isUpgradeSession(data, { errors }))
+    throw new UsageError(
+      `Invalid ${SESSION_FILENAME}:\n${errors
+        .map((error) => `  - ${error}`)
+        .join(`\n`)}`,
+    );
+
+  return data;
+};
+
+export const saveUpgradeSession = async (
+  configuration: Configuration,
+  session: UpgradeSession,
+) => {
+  const sessionPath = getSessionPath(configuration);
+
+  await xfs.mkdirPromise(ppath.dirname(sessionPath), { recursive: true });
+  await xfs.writeFilePromise(
+    sessionPath,
+    `${JSON.stringify(session, null, 2)}\n`,
+  );
+};
+
+export const removeUpgradeSession = async (configuration: Configuration) => {
+  const sessionPath = getSessionPath(configuration);
+  if (xfs.existsSync(sessionPath)) await xfs.removePromise(sessionPath);
+};
@@ -0,0 +1,87 @@
+import { PortablePath, xfs } from '@yarnpkg/fslib';
+
+import {
+  StubRegistry,
+  makeTemporaryProject,
+  runCommand,
+  startStubRegistry,
+} from './testUtils';
+
+describe(`bump ceilings`, () => {
+  let registry: StubRegistry;
+  let projectCwd: PortablePath;
+
+  beforeAll(async () => {
+    registry = await startStubRegistry({
+      [`stub-semver`]: {
+        versions: {
+          [`7.5.0`]: 300,
+          [`7.5.4`]: 200,
+          [`7.8.5`]: 100,
+          [`8.0.0`]: 50,
+        },
+      },
+      [`stub-tilde`]: {
+        versions: { [`1.2.0`]: 300, [`1.2.3`]: 200, [`1.3.0`]: 100 },
+      },
+    });
+    projectCwd = await makeTemporaryProject(registry, {
+      [`stub-semver`]: `^7.5.0`,
+      [`stub-tilde`]: `~1.2.0`,
+    });
+  });
+
+  afterAll(async () => {
+    await registry.close();
+    await xfs.removePromise(projectCwd);
+  });
+
+  const applyPolicy = async (args: Array<string>) => {
+    const { exitCode, output } = await runCommand(projectCwd, [
+      `--non-interactive`,
+      `--dry-run`,
+      ...args,
+    ]);
+    expect(exitCode).toEqual(0);
+
+    return output;
+  };
+
+  it(`should cap the latest policy with --max-bump`, async () => {
+    const output = await applyPolicy([
+      `--policy`,
+      `latest`,
+      `--max-bump`,
+      `patch`,
+    ]);
+
+    expect(output).toContain(`+    "stub-semver": "7.5.4"`);
+  });
+
+  it(`should cap the dependencies matching a ~patch rule`, async () => {
+    const output = await applyPolicy([
+      `--policy`,
+      `latest`,
+      `--exclude`,
+      `stub-semver@~patch`,
+    ]);
+
+    expect(output).toContain(`+    "stub-semver": "7.5.4"`);
+    expect(output).toContain(`+    "stub-tilde": "~1.3.0"`);
+  });
+
+  it(`should offer the capped range in the JSON report`, async () => {
+    const { output } = await runCommand(projectCwd, [
+      `--json`,
+      `--max-bump`,
+      `patch`,
+    ]);
+    const candidate = output
+      .trim()
+      .split(`\n`)
+      .map((line) => JSON.parse(line))
+      .find(({ name }) => name === `stub-semver`);
+
+    expect(candidate.capped).toEqual(`7.5.4`);
+  });
+});
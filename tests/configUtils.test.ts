@@ -0,0 +1,148 @@
+import { PortablePath, ppath, xfs } from '@yarnpkg/fslib';
+
+import {
+  CONFIG_FILENAME,
+  ConfiguredExclusion,
+  addConfiguredExclusions,
+  loadFilterConfiguration,
+} from '../sources/configUtils';
+
+describe(`addConfiguredExclusions`, () => {
+  let projectCwd: PortablePath;
+
+  const exclusion: ConfiguredExclusion = {
+    rule: `packages/a#uuid@range:^8.0.0`,
+    reason: `Upgrading to ^9.0.0 broke the test script`,
+    expires: null,
+  };
+
+  beforeEach(async () => {
+    projectCwd = await xfs.mktempPromise();
+  });
+
+  afterEach(async () => {
+    await xfs.removePromise(projectCwd);
+  });
+
+  const writeConfiguration = (lines: Array<string>) =>
+    xfs.writeFilePromise(
+      ppath.join(projectCwd, CONFIG_FILENAME),
+      lines.join(`\n`),
+    );
+
+  const readConfiguration = () =>
+    xfs.readFilePromise(ppath.join(projectCwd, CONFIG_FILENAME), `utf8`);
+
+  it(`should create the file when there's none`, async () => {
+    expect(await addConfiguredExclusions(projectCwd, [exclusion])).toEqual(
+      true,
+    );
+
+    expect((await loadFilterConfiguration(projectCwd)).exclude).toEqual([
+      exclusion,
+    ]);
+  });
+
+  it(`should insert the entries after the last one, keeping the rest of the file`, async () => {
+    await writeConfiguration([
+      `# Shared by the whole team`,
+      `exclude:`,
+      `  # Waiting for the ESM migration`,
+      `  - "@types/node"`,
+      `  - rule: react`,
+      `    expires: 2030-01-01`,
+      ``,
+      `# The default policy`,
+      `policy: minor`,
+      ``,
+    ]);
+
+    expect(await addConfiguredExclusions(projectCwd, [exclusion])).toEqual(
+      true,
+    );
+
+    expect(await readConfiguration()).toEqual(
+      [
+        `# Shared by the whole team`,
+        `exclude:`,
+        `  # Waiting for the ESM migration`,
+        `  - "@types/node"`,
+        `  - rule: react`,
+        `    expires: 2030-01-01`,
+        `  - rule: "packages/a#uuid@range:^8.0.0"`,
+        `    reason: "Upgrading to ^9.0.0 broke the test script"`,
+        ``,
+        `# The default policy`,
+        `policy: minor`,
+        ``,
+      ].join(`\n`),
+    );
+  });
+
+  it(`should follow the indentation of the list`, async () => {
+    await writeConfiguration([`exclude:`, `- react`, `policy: minor`, ``]);
+
+    expect(await addConfiguredExclusions(projectCwd, [exclusion])).toEqual(
+      true,
+    );
+
+    const configuration = await loadFilterConfiguration(projectCwd);
+    expect(configuration.exclude.map(({ rule }) => rule)).toEqual([
+      `react`,
+      exclusion.rule,
+    ]);
+    expect(configuration.policy).toEqual(`minor`);
+  });
+
+  it(`should add the list at the end of the file when it's missing`, async () => {
+    await writeConfiguration([`# The default policy`, `policy: minor`]);
+
+    expect(await addConfiguredExclusions(projectCwd, [exclusion])).toEqual(
+      true,
+    );
+
+    expect(await readConfiguration()).toEqual(
+      [
+        `# The default policy`,
+        `policy: minor`,
+        `exclude:`,
+        `  - rule: "packages/a#uuid@range:^8.0.0"`,
+        `    reason: "Upgrading to ^9.0.0 broke the test script"`,
+        ``,
+      ].join(`\n`),
+    );
+  });
+
+  it(`should leave the file untouched when the list can't be extended`, async () => {
+    await writeConfiguration([`exclude: [react]`, ``]);
+
+    expect(await addConfiguredExclusions(projectCwd, [exclusion])).toEqual(
+      false,
+    );
+
+    expect(await readConfiguration()).toEqual(`exclude: [react]\n`);
+  });
+});
+
+describe(`loadFilterConfiguration`, () => {
+  let projectCwd: PortablePath;
+
+  beforeEach(async () => {
+    projectCwd = await xfs.mktempPromise();
+  });
+
+  afterEach(async () => {
+    await xfs.removePromise(projectCwd);
+  });
+
+  it(`should reject the expiry dates that don't exist`, async () => {
+    await xfs.writeFilePromise(
+      ppath.join(projectCwd, CONFIG_FILENAME),
+      [`exclude:`, `  - rule: react`, `    expires: 2024-02-30`, ``].join(`\n`),
+    );
+
+    await expect(loadFilterConfiguration(projectCwd)).rejects.toThrow(
+      `expires: Expected to be an existing date (got 2024-02-30)`,
+    );
+  });
+});
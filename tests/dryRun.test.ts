@@ -0,0 +1,70 @@
+import { Filename, PortablePath, ppath, xfs } from '@yarnpkg/fslib';
+
+import {
+  StubRegistry,
+  makeTemporaryProject,
+  runCommand,
+  startStubRegistry,
+} from './testUtils';
+
+describe(`--dry-run`, () => {
+  let registry: StubRegistry;
+  let projectCwd: PortablePath;
+
+  beforeAll(async () => {
+    registry = await startStubRegistry({
+      [`stub-pkg`]: { versions: { [`1.0.0`]: 100, [`2.0.0`]: 50 } },
+    });
+    projectCwd = await makeTemporaryProject(registry, {
+      [`stub-pkg`]: `^1.0.0`,
+    });
+  });
+
+  afterAll(async () => {
+    await registry.close();
+    await xfs.removePromise(projectCwd);
+  });
+
+  it(`should print the diff of the manifests without writing or installing anything`, async () => {
+    const before = await xfs.readdirPromise(projectCwd);
+    const manifest = await xfs.readFilePromise(
+      ppath.join(projectCwd, `package.json` as Filename),
+      `utf8`,
+    );
+
+    const { exitCode, output } = await runCommand(projectCwd, [
+      `--non-interactive`,
+      `--dry-run`,
+      `--policy`,
+      `latest`,
+    ]);
+    expect(exitCode).toEqual(0);
+
+    expect(output).toContain(`--- a/package.json`);
+    expect(output).toContain(`-    "stub-pkg": "^1.0.0"`);
+    expect(output).toContain(`+    "stub-pkg": "^2.0.0"`);
+
+    expect(
+      await xfs.readFilePromise(
+        ppath.join(projectCwd, `package.json` as Filename),
+        `utf8`,
+      ),
+    ).toEqual(manifest);
+    expect(
+      await xfs.readFilePromise(
+        ppath.join(projectCwd, `yarn.lock` as Filename),
+        `utf8`,
+      ),
+    ).toEqual(``);
+
+    // Only the cache folder is created, as soon as the cache is opened
+    expect(
+      (await xfs.readdirPromise(projectCwd)).filter((name) => name !== `.yarn`),
+    ).toEqual(before);
+    expect(
+      xfs.existsSync(
+        ppath.join(projectCwd, `.yarn/install-state.gz` as PortablePath),
+      ),
+    ).toEqual(false);
+  });
+});
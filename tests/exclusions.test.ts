@@ -0,0 +1,139 @@
+import { PortablePath, ppath, xfs } from '@yarnpkg/fslib';
+
+import {
+  StubRegistry,
+  makeTemporaryProject,
+  runCommand,
+  startStubRegistry,
+} from './testUtils';
+
+describe(`directory exclusions`, () => {
+  let registry: StubRegistry;
+  let projectCwd: PortablePath;
+
+  beforeAll(async () => {
+    registry = await startStubRegistry({
+      [`stub-pkg`]: { versions: { [`1.0.0`]: 100, [`2.0.0`]: 50 } },
+    });
+    projectCwd = await makeTemporaryProject(
+      registry,
+      {},
+      {
+        workspaces: {
+          [`packages/web`]: { [`stub-pkg`]: `^1.0.0` },
+          [`packages/api`]: { [`stub-pkg`]: `^1.0.0` },
+          [`services/worker`]: { [`stub-pkg`]: `^1.0.0` },
+        },
+      },
+    );
+  });
+
+  afterAll(async () => {
+    await registry.close();
+    await xfs.removePromise(projectCwd);
+  });
+
+  const applyExclusion = async (cwd: PortablePath, exclusion: string) => {
+    const { exitCode, output } = await runCommand(cwd, [
+      `--non-interactive`,
+      `--dry-run`,
+      `--policy`,
+      `latest`,
+      `--exclude`,
+      exclusion,
+    ]);
+    expect(exitCode).toEqual(0);
+
+    return {
+      output,
+      manifests: [...output.matchAll(/^--- a\/(.*)$/gm)].map(
+        ([, path]) => path,
+      ),
+    };
+  };
+
+  it(`should resolve the directories from the project root, wherever the command runs`, async () => {
+    for (const cwd of [
+      projectCwd,
+      ppath.join(projectCwd, `services/worker` as PortablePath),
+    ]) {
+      const { manifests } = await applyExclusion(cwd, `packages/*#stub-pkg`);
+
+      expect(manifests).toEqual([`services/worker/package.json`]);
+    }
+  });
+
+  it(`should warn about the directories that don't match any workspace`, async () => {
+    const { output, manifests } = await applyExclusion(
+      projectCwd,
+      `apps/*#stub-pkg`,
+    );
+
+    expect(output).toContain(
+      `The apps/*#stub-pkg rule doesn't match any workspace location (directories are relative to the project root)`,
+    );
+    expect(manifests).toEqual([
+      `packages/api/package.json`,
+      `packages/web/package.json`,
+      `services/worker/package.json`,
+    ]);
+  });
+});
+
+describe(`version exclusions`, () => {
+  let registry: StubRegistry;
+  let projectCwd: PortablePath;
+
+  beforeAll(async () => {
+    const versions = { [`1.0.0`]: 100, [`1.1.0`]: 75, [`2.0.0`]: 50 };
+
+    registry = await startStubRegistry({
+      [`stub-old`]: { versions },
+      [`stub-new`]: { versions },
+    });
+    projectCwd = await makeTemporaryProject(
+      registry,
+      { [`stub-old`]: `^1.0.0`, [`stub-new`]: `^1.0.0` },
+      {
+        lockfile: {
+          [`stub-old@^1.0.0`]: `1.0.0`,
+          [`stub-new@^1.0.0`]: `1.1.0`,
+        },
+      },
+    );
+  });
+
+  afterAll(async () => {
+    await registry.close();
+    await xfs.removePromise(projectCwd);
+  });
+
+  const fetchExcludedNames = async (exclusion: string) => {
+    const { exitCode, output } = await runCommand(projectCwd, [
+      `--json`,
+      `--exclude`,
+      exclusion,
+    ]);
+    expect(exitCode).toEqual(0);
+
+    return output
+      .trim()
+      .split(`\n`)
+      .map((line) => JSON.parse(line))
+      .filter(({ type }) => type === `excluded`)
+      .map(({ name }) => name)
+      .sort();
+  };
+
+  // Both manifest ranges are ^1.0.0, only the locked versions tell them apart
+  it(`should match the semver ranges against the locked versions`, async () => {
+    expect(await fetchExcludedNames(`stub-*@npm:^1.1.0`)).toEqual([`stub-new`]);
+  });
+
+  it(`should match the range: prefix against the manifest ranges`, async () => {
+    expect(await fetchExcludedNames(`stub-*@range:^1.1.0`)).toEqual([
+      `stub-new`,
+      `stub-old`,
+    ]);
+  });
+});
@@ -0,0 +1,103 @@
+import { Filename, PortablePath, npath, ppath, xfs } from '@yarnpkg/fslib';
+import { execFileSync } from 'child_process';
+
+import {
+  StubRegistry,
+  makeTemporaryProject,
+  runCommand,
+  startStubRegistry,
+} from './testUtils';
+
+// The repository is cloned from a local folder through a mirror in the git configuration
+const REPOSITORY_URL = `https://github.com/stub/stub-git.git`;
+
+describe(`git dependencies`, () => {
+  let registry: StubRegistry;
+  let repoCwd: PortablePath;
+  let commit: string;
+
+  const git = (...args: Array<string>) =>
+    execFileSync(`git`, args, {
+      cwd: npath.fromPortablePath(repoCwd),
+      encoding: `utf8`,
+    }).trim();
+
+  beforeAll(async () => {
+    registry = await startStubRegistry({});
+
+    repoCwd = await xfs.mktempPromise();
+    await xfs.writeJsonPromise(
+      ppath.join(repoCwd, `package.json` as Filename),
+      { name: `stub-git`, version: `1.0.0` },
+    );
+
+    git(`init`, `--quiet`);
+    git(`add`, `-A`);
+    git(
+      `-c`,
+      `user.name=stub`,
+      `-c`,
+      `user.email=stub@localhost`,
+      `commit`,
+      `--quiet`,
+      `-m`,
+      `Initial commit`,
+    );
+    git(`tag`, `v1.0.0`);
+    git(`tag`, `v1.2.0`);
+    git(`tag`, `v2.0.0`);
+
+    commit = git(`rev-parse`, `HEAD`);
+
+    process.env.GIT_CONFIG_COUNT = `1`;
+    process.env.GIT_CONFIG_KEY_0 = `url.file://${npath.fromPortablePath(
+      repoCwd,
+    )}.insteadOf`;
+    process.env.GIT_CONFIG_VALUE_0 = REPOSITORY_URL;
+  });
+
+  afterAll(async () => {
+    delete process.env.GIT_CONFIG_COUNT;
+    delete process.env.GIT_CONFIG_KEY_0;
+    delete process.env.GIT_CONFIG_VALUE_0;
+
+    await registry.close();
+    await xfs.removePromise(repoCwd);
+  });
+
+  const fetchCandidate = async (range: string) => {
+    const projectCwd = await makeTemporaryProject(registry, {
+      [`stub-git`]: range,
+    });
+
+    try {
+      const { exitCode, output } = await runCommand(projectCwd, [`--json`]);
+      expect(exitCode).toEqual(0);
+
+      return output
+        .trim()
+        .split(`\n`)
+        .map((line) => JSON.parse(line))
+        .find(({ type }) => type === `candidate`);
+    } finally {
+      await xfs.removePromise(projectCwd);
+    }
+  };
+
+  it(`should offer the newer tags of a tag reference`, async () => {
+    const candidate = await fetchCandidate(`${REPOSITORY_URL}#tag=v1.0.0`);
+
+    expect(candidate.range).toEqual(`${REPOSITORY_URL}#tag=v1.2.0`);
+    expect(candidate.latest).toEqual(`${REPOSITORY_URL}#tag=v2.0.0`);
+  });
+
+  // Writing the tag as #commit=v2.0.0 would make the manifest invalid
+  it(`should not offer tags to a commit or a branch reference`, async () => {
+    for (const treeish of [`commit=${commit}`, `head=master`]) {
+      const candidate = await fetchCandidate(`${REPOSITORY_URL}#${treeish}`);
+
+      expect(candidate?.range ?? null).toEqual(null);
+      expect(candidate?.latest ?? null).toEqual(null);
+    }
+  });
+});
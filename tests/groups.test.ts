@@ -0,0 +1,91 @@
+import { PortablePath, xfs } from '@yarnpkg/fslib';
+
+import {
+  StubRegistry,
+  makeTemporaryProject,
+  runCommand,
+  runInteractiveCommand,
+  startStubRegistry,
+} from './testUtils';
+
+describe(`--group`, () => {
+  let registry: StubRegistry;
+  let projectCwd: PortablePath;
+
+  beforeAll(async () => {
+    registry = await startStubRegistry({
+      [`stub-a`]: { versions: { [`1.0.0`]: 100, [`1.1.0`]: 50 } },
+      [`stub-b`]: { versions: { [`1.0.0`]: 100, [`1.1.0`]: 50 } },
+      [`zz-other`]: { versions: { [`1.0.0`]: 100, [`2.0.0`]: 50 } },
+      [`lock-a`]: {
+        versions: { [`1.0.0`]: 100, [`1.1.0`]: 50, [`1.2.0`]: 10 },
+      },
+      [`lock-b`]: { versions: { [`1.0.0`]: 100, [`1.1.0`]: 50 } },
+      [`gap-a`]: { versions: { [`1.0.0`]: 100, [`1.2.0`]: 50 } },
+      [`gap-b`]: {
+        versions: { [`1.0.0`]: 100, [`1.1.0`]: 50, [`1.3.0`]: 10 },
+      },
+    });
+    projectCwd = await makeTemporaryProject(registry, {
+      [`stub-a`]: `^1.0.0`,
+      [`stub-b`]: `^1.0.0`,
+      [`zz-other`]: `^1.0.0`,
+    });
+  });
+
+  afterAll(async () => {
+    await registry.close();
+    await xfs.removePromise(projectCwd);
+  });
+
+  // Each entry of the list is a single line, the members used to be drawn over the next rows
+  it(`should list the members of an expanded group under it`, async () => {
+    const { exitCode, output } = await runInteractiveCommand(
+      projectCwd,
+      [`--group`, `stub-*`],
+      [` `, `\r`],
+    );
+    expect(exitCode).toEqual(0);
+
+    const lines = output.split(`\n`);
+    const groupIndex = lines.findIndex((line) =>
+      line.includes(`▾ stub-* (2 packages)`),
+    );
+
+    expect(groupIndex).not.toEqual(-1);
+    expect(lines[groupIndex + 1]).toMatch(/^\s+stub-a \^1\.0\.0$/);
+    expect(lines[groupIndex + 2]).toMatch(/^\s+stub-b \^1\.0\.0$/);
+    expect(lines[groupIndex + 3]).toMatch(/^\s+zz-other -+ ◉ \^1\.0\.0/);
+  }, 30000);
+
+  it(`should upgrade the members to the newest version they all allow in non-interactive mode`, async () => {
+    const lockstepProjectCwd = await makeTemporaryProject(registry, {
+      [`lock-a`]: `^1.0.0`,
+      [`lock-b`]: `^1.0.0`,
+      [`gap-a`]: `^1.0.0`,
+      [`gap-b`]: `^1.0.0`,
+    });
+
+    try {
+      const { exitCode, output } = await runCommand(lockstepProjectCwd, [
+        `--non-interactive`,
+        `--dry-run`,
+        `--policy`,
+        `latest`,
+        `--group`,
+        `lock-*,gap-*`,
+      ]);
+      expect(exitCode).toEqual(0);
+
+      // A caret would let Yarn lock 1.2.0 for lock-a
+      expect(output).toContain(`+    "lock-a": "1.1.0"`);
+      expect(output).toContain(`+    "lock-b": "^1.1.0"`);
+      expect(output).toContain(
+        `The gap-* group was skipped, as its members can't all be upgraded to 1.2.0`,
+      );
+      expect(output).not.toMatch(/"gap-[ab]": "\^1\.[1-9]/);
+    } finally {
+      await xfs.removePromise(lockstepProjectCwd);
+    }
+  }, 30000);
+});
@@ -0,0 +1,216 @@
+import { structUtils } from '@yarnpkg/core';
+
+import {
+  exceedsBumpCeiling,
+  extractReleaseNotes,
+  getBumpCeilingRange,
+  mapWithConcurrency,
+  normalizeRepositoryUrl,
+  parseDuration,
+  rewrapRange,
+  widenPeerRange,
+} from '../sources/interractive';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe(`parseDuration`, () => {
+  it(`should parse each unit`, () => {
+    expect(parseDuration(`30m`)).toEqual(30 * 60 * 1000);
+    expect(parseDuration(`12h`)).toEqual(12 * 60 * 60 * 1000);
+    expect(parseDuration(`3d`)).toEqual(3 * DAY);
+    expect(parseDuration(`2w`)).toEqual(14 * DAY);
+  });
+
+  it(`should default to days`, () => {
+    expect(parseDuration(`7`)).toEqual(7 * DAY);
+  });
+
+  it(`should reject the invalid durations`, () => {
+    expect(() => parseDuration(`3 days`)).toThrow(`Invalid duration: 3 days`);
+    expect(() => parseDuration(`-1d`)).toThrow(`Invalid duration: -1d`);
+    expect(() => parseDuration(``)).toThrow(`Invalid duration`);
+  });
+});
+
+describe(`exceedsBumpCeiling`, () => {
+  it(`should allow the bumps below the ceiling`, () => {
+    expect(exceedsBumpCeiling(`^1.2.3`, `^1.2.4`, `patch`)).toEqual(false);
+    expect(exceedsBumpCeiling(`^1.2.3`, `^1.3.0`, `minor`)).toEqual(false);
+    expect(exceedsBumpCeiling(`^1.2.3`, `^2.0.0`, `major`)).toEqual(false);
+  });
+
+  it(`should refuse the bumps beyond the ceiling`, () => {
+    expect(exceedsBumpCeiling(`^1.2.3`, `^1.3.0`, `patch`)).toEqual(true);
+    expect(exceedsBumpCeiling(`^1.2.3`, `^2.0.0`, `minor`)).toEqual(true);
+  });
+
+  it(`should not let a modifier change hide a bump beyond the ceiling`, () => {
+    expect(exceedsBumpCeiling(`^1.2.3`, `~1.3.0`, `patch`)).toEqual(true);
+    expect(exceedsBumpCeiling(`^1.2.3`, `1.2.4`, `patch`)).toEqual(false);
+  });
+
+  it(`should consider the ranges that can't be compared as beyond the ceiling`, () => {
+    expect(exceedsBumpCeiling(`^1.2.3`, `latest`, `major`)).toEqual(true);
+    expect(exceedsBumpCeiling(`1.x`, `^2.0.0`, `major`)).toEqual(true);
+  });
+
+  it(`should accept the same range`, () => {
+    expect(exceedsBumpCeiling(`latest`, `latest`, `patch`)).toEqual(false);
+  });
+});
+
+describe(`getBumpCeilingRange`, () => {
+  it(`should build the range of each ceiling`, () => {
+    expect(getBumpCeilingRange(`^7.5.0`, `patch`)).toEqual(`>=7.5.0 <7.6.0`);
+    expect(getBumpCeilingRange(`^7.5.0`, `minor`)).toEqual(`>=7.5.0 <8.0.0`);
+    expect(getBumpCeilingRange(`^7.5.0`, `major`)).toEqual(`>=7.5.0`);
+  });
+
+  it(`should start from the lowest version of the range`, () => {
+    expect(getBumpCeilingRange(`~1.2.3 || ^2.0.0`, `minor`)).toEqual(
+      `>=1.2.3 <2.0.0`,
+    );
+  });
+
+  it(`should return null for the ranges that aren't semver`, () => {
+    expect(getBumpCeilingRange(`latest`, `major`)).toEqual(null);
+    expect(getBumpCeilingRange(`npm:^1.0.0`, `major`)).toEqual(null);
+  });
+});
+
+describe(`widenPeerRange`, () => {
+  it(`should add the new range to the current one`, () => {
+    expect(widenPeerRange(`^17.0.0`, `^18.0.0`)).toEqual(`^17.0.0 || ^18.0.0`);
+  });
+
+  it(`should keep the current range when it already allows the new one`, () => {
+    expect(widenPeerRange(`^17.0.0`, `^17.0.2`)).toEqual(`^17.0.0`);
+    expect(widenPeerRange(`*`, `^18.0.0`)).toEqual(`*`);
+  });
+
+  it(`should replace the ranges that aren't semver`, () => {
+    expect(widenPeerRange(`workspace:^`, `^2.0.0`)).toEqual(`^2.0.0`);
+  });
+});
+
+describe(`extractReleaseNotes`, () => {
+  const changelog = [
+    `# Changelog`,
+    ``,
+    `## [2.0.0] - 2024-03-01`,
+    ``,
+    `- Dropped Node 14`,
+    ``,
+    `## 1.2.0`,
+    `- Added a feature`,
+    ``,
+    `### v1.1.0`,
+    `- Fixed a bug`,
+    ``,
+    `## 1.0.0`,
+    `- Initial release`,
+  ].join(`\n`);
+
+  it(`should keep the sections between the two versions`, () => {
+    expect(extractReleaseNotes(changelog, `1.0.0`, `1.2.0`)).toEqual([
+      `## 1.2.0`,
+      `- Added a feature`,
+      `### v1.1.0`,
+      `- Fixed a bug`,
+    ]);
+  });
+
+  it(`should keep every section up to the version without a lower bound`, () => {
+    expect(extractReleaseNotes(changelog, null, `1.1.0`)).toEqual([
+      `### v1.1.0`,
+      `- Fixed a bug`,
+      `## 1.0.0`,
+      `- Initial release`,
+    ]);
+  });
+
+  it(`should support the keep-a-changelog headings and the CRLF line endings`, () => {
+    expect(
+      extractReleaseNotes(changelog.replace(/\n/g, `\r\n`), `1.2.0`, `2.0.0`),
+    ).toEqual([`## [2.0.0] - 2024-03-01`, `- Dropped Node 14`]);
+  });
+
+  it(`should return nothing when no heading matches`, () => {
+    expect(extractReleaseNotes(`Nothing to see here`, null, `1.0.0`)).toEqual(
+      [],
+    );
+  });
+});
+
+describe(`rewrapRange`, () => {
+  it(`should put the range back into a patch`, () => {
+    const descriptor = structUtils.parseDescriptor(
+      `lodash@patch:lodash@npm%3A4.17.0#~/.yarn/patches/lodash.patch`,
+    );
+
+    expect(rewrapRange(descriptor, `npm:4.17.21`)).toEqual(
+      `patch:lodash@npm%3A4.17.21#~/.yarn/patches/lodash.patch`,
+    );
+  });
+
+  it(`should put the range back into an alias`, () => {
+    const descriptor = structUtils.parseDescriptor(`my-ms@npm:ms@^2.0.0`);
+
+    expect(rewrapRange(descriptor, `^2.1.3`)).toEqual(`npm:ms@^2.1.3`);
+  });
+
+  it(`should put the range back into an npm: range of the same package`, () => {
+    const descriptor = structUtils.parseDescriptor(`ms@npm:^2.0.0`);
+
+    expect(rewrapRange(descriptor, `^2.1.3`)).toEqual(`npm:^2.1.3`);
+  });
+});
+
+describe(`normalizeRepositoryUrl`, () => {
+  it(`should make the notations of the same repository comparable`, () => {
+    const urls = [
+      `git+https://github.com/babel/babel.git`,
+      `https://github.com/babel/babel`,
+      `git@github.com:babel/babel.git`,
+      `git+ssh://git@github.com/babel/babel.git`,
+      `github:babel/babel`,
+      `https://GitHub.com/Babel/Babel/`,
+    ];
+
+    expect(new Set(urls.map(normalizeRepositoryUrl))).toEqual(
+      new Set([`github.com/babel/babel`]),
+    );
+  });
+
+  it(`should tell the different repositories apart`, () => {
+    expect(
+      normalizeRepositoryUrl(`https://github.com/babel/babel`),
+    ).not.toEqual(
+      normalizeRepositoryUrl(`https://github.com/babel/babel-loader`),
+    );
+  });
+});
+
+describe(`mapWithConcurrency`, () => {
+  it(`should keep the results in the order of the items`, async () => {
+    const results = await mapWithConcurrency([30, 10, 20], 2, async (delay) => {
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      return delay * 2;
+    });
+
+    expect(results).toEqual([60, 20, 40]);
+  });
+
+  it(`should never run more callbacks at once than allowed`, async () => {
+    let pending = 0;
+    let maxPending = 0;
+
+    await mapWithConcurrency([...Array(10).keys()], 3, async () => {
+      maxPending = Math.max(maxPending, ++pending);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      pending -= 1;
+    });
+
+    expect(maxPending).toEqual(3);
+  });
+});
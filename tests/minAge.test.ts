@@ -0,0 +1,120 @@
+import { PortablePath, xfs } from '@yarnpkg/fslib';
+
+import {
+  StubRegistry,
+  makeTemporaryProject,
+  runCommand,
+  startStubRegistry,
+} from './testUtils';
+
+describe(`--min-age`, () => {
+  let registry: StubRegistry;
+  let projectCwd: PortablePath;
+
+  beforeAll(async () => {
+    registry = await startStubRegistry({
+      [`stub-pkg`]: {
+        versions: { [`1.0.0`]: 100, [`1.1.0`]: 30, [`1.2.0`]: 1, [`2.0.0`]: 2 },
+      },
+      [`stub-tagged`]: {
+        versions: { [`1.0.0`]: 100, [`1.1.0`]: 30, [`2.0.0`]: 1 },
+        latest: `1.1.0`,
+        tags: { next: `2.0.0` },
+      },
+    });
+    projectCwd = await makeTemporaryProject(registry, {
+      [`stub-pkg`]: `^1.0.0`,
+    });
+  });
+
+  afterAll(async () => {
+    await registry.close();
+    await xfs.removePromise(projectCwd);
+  });
+
+  const fetchCandidate = async (args: Array<string>) => {
+    const { exitCode, output } = await runCommand(projectCwd, [
+      `--json`,
+      ...args,
+    ]);
+    expect(exitCode).toEqual(0);
+
+    return output
+      .trim()
+      .split(`\n`)
+      .map((line) => JSON.parse(line))
+      .find(({ type }) => type === `candidate`);
+  };
+
+  it(`should suggest the newest versions without --min-age`, async () => {
+    const candidate = await fetchCandidate([]);
+
+    expect(candidate.range).toEqual(`^1.2.0`);
+    expect(candidate.latest).toEqual(`^2.0.0`);
+    expect(candidate.heldBack).toEqual([]);
+  });
+
+  it(`should hold back the versions published too recently`, async () => {
+    const candidate = await fetchCandidate([`--min-age`, `7d`]);
+
+    // The modifier would let Yarn resolve 1.2.0, so the suggestion is pinned
+    expect(candidate.range).toEqual(`1.1.0`);
+    expect(candidate.latest).toEqual(`1.1.0`);
+    expect(
+      candidate.heldBack.map(({ version }: { version: string }) => version),
+    ).toEqual([`1.2.0`, `2.0.0`]);
+  });
+
+  it(`should hold back the version of the tag given by --tag`, async () => {
+    const taggedProjectCwd = await makeTemporaryProject(registry, {
+      [`stub-tagged`]: `^1.0.0`,
+    });
+
+    try {
+      const { exitCode, output } = await runCommand(taggedProjectCwd, [
+        `--json`,
+        `--tag`,
+        `next`,
+        `--min-age`,
+        `7d`,
+      ]);
+      expect(exitCode).toEqual(0);
+
+      const candidate = output
+        .trim()
+        .split(`\n`)
+        .map((line) => JSON.parse(line))
+        .find(({ type }) => type === `candidate`);
+      expect(
+        candidate.heldBack.map(({ version }: { version: string }) => version),
+      ).toEqual([`2.0.0`]);
+    } finally {
+      await xfs.removePromise(taggedProjectCwd);
+    }
+  });
+
+  it(`should never apply a held back version in non-interactive mode`, async () => {
+    const { exitCode, output } = await runCommand(projectCwd, [
+      `--non-interactive`,
+      `--policy`,
+      `minor`,
+      `--min-age`,
+      `7d`,
+      `--dry-run`,
+    ]);
+
+    expect(exitCode).toEqual(0);
+    expect(output).toContain(`+    "stub-pkg": "1.1.0"`);
+  });
+
+  it(`should reject invalid durations`, async () => {
+    const { exitCode, output } = await runCommand(projectCwd, [
+      `--json`,
+      `--min-age`,
+      `soon`,
+    ]);
+
+    expect(exitCode).toEqual(1);
+    expect(output).toContain(`Invalid duration: soon`);
+  });
+});
@@ -0,0 +1,64 @@
+import { PortablePath, xfs } from '@yarnpkg/fslib';
+
+import {
+  StubRegistry,
+  makeTemporaryProject,
+  runCommand,
+  startStubRegistry,
+} from './testUtils';
+
+describe(`--policy`, () => {
+  let registry: StubRegistry;
+  let projectCwd: PortablePath;
+
+  beforeAll(async () => {
+    registry = await startStubRegistry({
+      [`stub-semver`]: {
+        versions: {
+          [`7.5.0`]: 300,
+          [`7.5.4`]: 200,
+          [`7.8.5`]: 100,
+          [`8.0.0`]: 50,
+        },
+      },
+      [`stub-tilde`]: {
+        versions: { [`1.2.0`]: 300, [`1.2.3`]: 200, [`1.3.0`]: 100 },
+      },
+    });
+    projectCwd = await makeTemporaryProject(registry, {
+      [`stub-semver`]: `^7.5.0`,
+      [`stub-tilde`]: `~1.2.0`,
+    });
+  });
+
+  afterAll(async () => {
+    await registry.close();
+    await xfs.removePromise(projectCwd);
+  });
+
+  const applyPolicy = async (args: Array<string>) => {
+    const { exitCode, output } = await runCommand(projectCwd, [
+      `--non-interactive`,
+      `--dry-run`,
+      ...args,
+    ]);
+    expect(exitCode).toEqual(0);
+
+    return output;
+  };
+
+  // A caret kept on 7.5.4 would let Yarn lock 7.8.5, a minor bump
+  it(`should pin the version when the modifier would go beyond the patch ceiling`, async () => {
+    const output = await applyPolicy([`--policy`, `patch`]);
+
+    expect(output).toContain(`+    "stub-semver": "7.5.4"`);
+    expect(output).toContain(`+    "stub-tilde": "~1.2.3"`);
+  });
+
+  it(`should keep the modifier when it stays within the minor ceiling`, async () => {
+    const output = await applyPolicy([`--policy`, `minor`]);
+
+    expect(output).toContain(`+    "stub-semver": "^7.8.5"`);
+    expect(output).toContain(`+    "stub-tilde": "~1.3.0"`);
+  });
+});
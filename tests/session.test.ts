@@ -0,0 +1,94 @@
+import { Filename, PortablePath, ppath, xfs } from '@yarnpkg/fslib';
+
+import {
+  StubRegistry,
+  makeTemporaryProject,
+  runCommand,
+  runInteractiveCommand,
+  startStubRegistry,
+} from './testUtils';
+
+describe(`--resume`, () => {
+  let registry: StubRegistry;
+  let projectCwd: PortablePath;
+  let sessionPath: PortablePath;
+
+  beforeAll(async () => {
+    registry = await startStubRegistry({
+      [`stub-a`]: { versions: { [`1.0.0`]: 100, [`1.1.0`]: 50 } },
+      [`stub-b`]: { versions: { [`1.0.0`]: 100, [`1.1.0`]: 50 } },
+    });
+    projectCwd = await makeTemporaryProject(registry, {
+      [`stub-a`]: `^1.0.0`,
+      [`stub-b`]: `^1.0.0`,
+    });
+    sessionPath = ppath.join(
+      projectCwd,
+      `.yarn/upgrade-interactive-filter.session.json` as Filename,
+    );
+  });
+
+  afterAll(async () => {
+    await registry.close();
+    await xfs.removePromise(projectCwd);
+  });
+
+  it(`should save the selections of the upgrade window`, async () => {
+    // Selects the Range column of both rows, then aborts
+    await runInteractiveCommand(
+      projectCwd,
+      [],
+      [`\u001b[C`, `\u001b[B`, `\u001b[C`, `\u0003`],
+    );
+
+    const session = await xfs.readJsonPromise(sessionPath);
+    expect(
+      session.selections.map(({ name, range }: any) => [name, range]),
+    ).toEqual([
+      [`stub-a`, `^1.1.0`],
+      [`stub-b`, `^1.1.0`],
+    ]);
+  }, 60000);
+
+  it(`should not resume the selections that no column offers anymore`, async () => {
+    const session = await xfs.readJsonPromise(sessionPath);
+    session.selections[0].range = `^1.5.0`;
+    await xfs.writeJsonPromise(sessionPath, session);
+
+    const { output } = await runInteractiveCommand(
+      projectCwd,
+      [`--resume`, `--dry-run`],
+      [`\r`],
+    );
+
+    expect(output).toContain(
+      `1 of the saved selections weren't resumed, as their rows don't offer these versions anymore`,
+    );
+    expect(output).not.toContain(`"stub-a": "^1.5.0"`);
+    expect(output).toContain(`+    "stub-b": "^1.1.0"`);
+  }, 60000);
+
+  it(`should never write the session under --dry-run`, async () => {
+    await xfs.removePromise(sessionPath);
+
+    await runInteractiveCommand(
+      projectCwd,
+      [`--dry-run`],
+      [`\u001b[C`, `\u0003`],
+    );
+
+    expect(xfs.existsSync(sessionPath)).toEqual(false);
+  }, 60000);
+
+  it(`should report a missing session`, async () => {
+    const { exitCode, output } = await runCommand(projectCwd, [
+      `--resume`,
+      `--non-interactive`,
+    ]);
+
+    expect(exitCode).toEqual(1);
+    expect(output).toContain(
+      `There is no session to resume, as .yarn/upgrade-interactive-filter.session.json doesn't exist`,
+    );
+  });
+});
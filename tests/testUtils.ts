@@ -0,0 +1,227 @@
+import { getPluginConfiguration } from '@yarnpkg/cli';
+import { CommandContext } from '@yarnpkg/core';
+import { Filename, PortablePath, ppath, xfs } from '@yarnpkg/fslib';
+import { Cli } from 'clipanion';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { PassThrough } from 'stream';
+
+import UpgradeInteractiveCommand from '../sources/interractive';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Each version is published the given number of days ago
+export type StubPackage = {
+  versions: Record<string, number>;
+  latest?: string;
+  // The dist-tags other than latest
+  tags?: Record<string, string>;
+};
+
+export type StubRegistry = {
+  url: string;
+  close: () => Promise<void>;
+};
+
+// Serves the metadata of the given packages, same as the npm registry does (minus the tarballs)
+export const startStubRegistry = async (
+  packages: Record<string, StubPackage>,
+): Promise<StubRegistry> => {
+  const server = http.createServer((req, res) => {
+    const name = decodeURIComponent((req.url ?? ``).slice(1));
+    const stub = packages[name];
+
+    if (typeof stub === `undefined`) {
+      res.writeHead(404, { [`Content-Type`]: `application/json` });
+      res.end(JSON.stringify({ error: `Not found` }));
+      return;
+    }
+
+    const versions = Object.keys(stub.versions);
+    const { port } = server.address() as AddressInfo;
+    const now = Date.now();
+
+    res.writeHead(200, { [`Content-Type`]: `application/json` });
+    res.end(
+      JSON.stringify({
+        name,
+        [`dist-tags`]: {
+          latest: stub.latest ?? versions[versions.length - 1],
+          ...stub.tags,
+        },
+        versions: Object.fromEntries(
+          versions.map((version) => [
+            version,
+            {
+              name,
+              version,
+              dist: {
+                tarball: `http://localhost:${port}/${name}/-/${name}-${version}.tgz`,
+              },
+            },
+          ]),
+        ),
+        time: Object.fromEntries(
+          versions.map((version) => [
+            version,
+            new Date(now - stub.versions[version] * DAY).toISOString(),
+          ]),
+        ),
+      }),
+    );
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, `localhost`, resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://localhost:${port}`,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+};
+
+export type StubProjectOptions = {
+  // The dependencies of each workspace, keyed by its directory, the workspace being named @stub/<basename>
+  workspaces?: Record<string, Record<string, string>>;
+  // The version locked for each dependency, keyed by its descriptor (such as stub-pkg@^1.0.0)
+  lockfile?: Record<string, string>;
+};
+
+// Creates a project whose dependencies are resolved through the stub registry
+export const makeTemporaryProject = async (
+  registry: StubRegistry,
+  dependencies: Record<string, string>,
+  { workspaces = {}, lockfile = {} }: StubProjectOptions = {},
+): Promise<PortablePath> => {
+  const projectCwd = await xfs.mktempPromise();
+
+  const workspaceCwds = Object.keys(workspaces);
+  await xfs.writeJsonPromise(
+    ppath.join(projectCwd, `package.json` as Filename),
+    {
+      name: `stub-project`,
+      ...(workspaceCwds.length > 0
+        ? { private: true, workspaces: workspaceCwds }
+        : {}),
+      dependencies,
+    },
+  );
+
+  for (const workspaceCwd of workspaceCwds) {
+    const cwd = ppath.join(projectCwd, workspaceCwd as PortablePath);
+
+    await xfs.mkdirPromise(cwd, { recursive: true });
+    await xfs.writeJsonPromise(ppath.join(cwd, `package.json` as Filename), {
+      name: `@stub/${ppath.basename(cwd)}`,
+      dependencies: workspaces[workspaceCwd],
+    });
+  }
+
+  await xfs.writeFilePromise(
+    ppath.join(projectCwd, `.yarnrc.yml` as Filename),
+    [
+      `npmRegistryServer: "${registry.url}"`,
+      `unsafeHttpWhitelist: ["localhost"]`,
+      `enableGlobalCache: false`,
+      `enableTelemetry: false`,
+      `enableColors: false`,
+      ``,
+    ].join(`\n`),
+  );
+  await xfs.writeFilePromise(
+    ppath.join(projectCwd, `yarn.lock` as Filename),
+    Object.keys(lockfile).length > 0
+      ? [
+          `__metadata:`,
+          `  version: 7`,
+          ``,
+          ...Object.entries(lockfile).flatMap(([descriptor, version]) => {
+            const separator = descriptor.lastIndexOf(`@`);
+            const name = descriptor.slice(0, separator);
+            const range = descriptor.slice(separator + 1);
+
+            return [
+              `"${name}@npm:${range}":`,
+              `  version: ${version}`,
+              `  resolution: "${name}@npm:${version}"`,
+              `  languageName: node`,
+              `  linkType: hard`,
+              ``,
+            ];
+          }),
+        ].join(`\n`)
+      : ``,
+  );
+
+  return projectCwd;
+};
+
+export const runCommand = async (
+  projectCwd: PortablePath,
+  args: Array<string>,
+): Promise<{ exitCode: number; output: string }> => {
+  const cli = Cli.from<CommandContext>([UpgradeInteractiveCommand]);
+
+  let output = ``;
+  const stdout = new PassThrough();
+  stdout.on(`data`, (chunk) => {
+    output += chunk.toString();
+  });
+
+  const exitCode = await cli.run([`upgrade-interactive-filter`, ...args], {
+    cwd: projectCwd,
+    env: process.env,
+    plugins: getPluginConfiguration(),
+    quiet: true,
+    stdin: new PassThrough(),
+    stdout,
+    stderr: stdout,
+    colorDepth: 1,
+  });
+
+  return { exitCode, output };
+};
+
+// Opens the upgrade window in a fake terminal, sends the keys once the rows had time to load, and returns the last frame
+export const runInteractiveCommand = async (
+  projectCwd: PortablePath,
+  args: Array<string>,
+  keys: Array<string>,
+): Promise<{ exitCode: number; output: string }> => {
+  const cli = Cli.from<CommandContext>([UpgradeInteractiveCommand]);
+
+  const stdin = Object.assign(new PassThrough(), {
+    isTTY: true,
+    setRawMode: () => {},
+    ref: () => {},
+    unref: () => {},
+  });
+
+  let output = ``;
+  const stdout = Object.assign(new PassThrough(), {
+    isTTY: true,
+    columns: 160,
+    rows: 40,
+  });
+  stdout.on(`data`, (chunk) => {
+    output += chunk.toString();
+  });
+
+  const exitCodePromise = cli.run([`upgrade-interactive-filter`, ...args], {
+    cwd: projectCwd,
+    env: process.env,
+    plugins: getPluginConfiguration(),
+    quiet: true,
+    stdin,
+    stdout,
+    stderr: stdout,
+    colorDepth: 1,
+  });
+
+  for (const key of keys) {
+    await new Promise((resolve) => setTimeout(resolve, 3000));
+    stdin.write(key);
+  }
+
+  return { exitCode: await exitCodePromise, output };
+};
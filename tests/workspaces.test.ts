@@ -0,0 +1,137 @@
+import { Filename, PortablePath, npath, ppath, xfs } from '@yarnpkg/fslib';
+import { execFileSync } from 'child_process';
+
+import {
+  StubRegistry,
+  makeTemporaryProject,
+  runCommand,
+  startStubRegistry,
+} from './testUtils';
+
+describe(`workspaces`, () => {
+  let registry: StubRegistry;
+  let projectCwd: PortablePath;
+
+  beforeAll(async () => {
+    registry = await startStubRegistry({
+      [`stub-pkg`]: { versions: { [`1.0.0`]: 100, [`2.0.0`]: 50 } },
+    });
+    projectCwd = await makeTemporaryProject(
+      registry,
+      {},
+      {
+        workspaces: {
+          [`packages/web`]: { [`stub-pkg`]: `^1.0.0` },
+          [`packages/api`]: { [`stub-pkg`]: `^1.0.0` },
+          [`services/worker`]: { [`stub-pkg`]: `^1.0.0` },
+        },
+      },
+    );
+  });
+
+  afterAll(async () => {
+    await registry.close();
+    await xfs.removePromise(projectCwd);
+  });
+
+  const fetchChangedManifests = async (args: Array<string>) => {
+    const { exitCode, output } = await runCommand(projectCwd, [
+      `--non-interactive`,
+      `--dry-run`,
+      `--policy`,
+      `latest`,
+      ...args,
+    ]);
+    expect(exitCode).toEqual(0);
+
+    return [...output.matchAll(/^--- a\/(.*)$/gm)].map(([, path]) => path);
+  };
+
+  it(`should only upgrade the selected workspaces`, async () => {
+    expect(await fetchChangedManifests([`@stub/web`])).toEqual([
+      `packages/web/package.json`,
+    ]);
+  });
+
+  it(`should upgrade every workspace sharing the range with --propagate`, async () => {
+    expect(await fetchChangedManifests([`@stub/web`, `--propagate`])).toEqual([
+      `packages/api/package.json`,
+      `packages/web/package.json`,
+      `services/worker/package.json`,
+    ]);
+  });
+
+  it(`should select the workspaces by name or directory glob`, async () => {
+    expect(await fetchChangedManifests([`@stub/w*`])).toEqual([
+      `packages/web/package.json`,
+      `services/worker/package.json`,
+    ]);
+    expect(await fetchChangedManifests([`packages/*`])).toEqual([
+      `packages/api/package.json`,
+      `packages/web/package.json`,
+    ]);
+  });
+
+  it(`should suggest the closest name of a misspelled workspace`, async () => {
+    const { exitCode, output } = await runCommand(projectCwd, [
+      `--non-interactive`,
+      `@stub/wbe`,
+    ]);
+
+    expect(exitCode).toEqual(1);
+    expect(output).toContain(
+      `No workspace matches @stub/wbe - did you mean @stub/web?`,
+    );
+  });
+
+  it(`should only select the workspaces changed since the given ref`, async () => {
+    const gitProjectCwd = await makeTemporaryProject(
+      registry,
+      {},
+      {
+        workspaces: {
+          [`packages/web`]: { [`stub-pkg`]: `^1.0.0` },
+          [`packages/api`]: { [`stub-pkg`]: `^1.0.0` },
+        },
+      },
+    );
+
+    const git = (...args: Array<string>) =>
+      execFileSync(`git`, args, { cwd: npath.fromPortablePath(gitProjectCwd) });
+
+    try {
+      git(`init`, `--quiet`);
+      git(`add`, `-A`);
+      git(
+        `-c`,
+        `user.name=stub`,
+        `-c`,
+        `user.email=stub@localhost`,
+        `commit`,
+        `--quiet`,
+        `-m`,
+        `Initial commit`,
+      );
+
+      await xfs.writeFilePromise(
+        ppath.join(gitProjectCwd, `packages/api/index.js` as Filename),
+        ``,
+      );
+
+      const { exitCode, output } = await runCommand(gitProjectCwd, [
+        `--non-interactive`,
+        `--dry-run`,
+        `--policy`,
+        `latest`,
+        `--since=HEAD`,
+      ]);
+      expect(exitCode).toEqual(0);
+
+      expect(
+        [...output.matchAll(/^--- a\/(.*)$/gm)].map(([, path]) => path),
+      ).toEqual([`packages/api/package.json`]);
+    } finally {
+      await xfs.removePromise(gitProjectCwd);
+    }
+  });
+});